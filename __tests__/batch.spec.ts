@@ -0,0 +1,155 @@
+import createTestServer, { Server } from '@xg-wang/create-test-server';
+import fs from 'fs';
+import path from 'path';
+import type { Browser, BrowserContext, BrowserType, Page } from 'playwright';
+import playwright from 'playwright';
+import waitForExpect from 'wait-for-expect';
+
+import type { createBatchBeacon } from '../dist/';
+import { log } from './utils';
+
+declare global {
+  interface Window {
+    createBatchBeacon: typeof createBatchBeacon;
+    __DEBUG_BEACON_TRANSPORTER: boolean;
+  }
+}
+
+const script = {
+  type: 'module',
+  content: `
+${fs.readFileSync(path.join(__dirname, '..', 'dist', 'bundle.esm.js'), 'utf8')}
+self.createBatchBeacon = createBatchBeacon;
+self.__DEBUG_BEACON_TRANSPORTER = true;
+`,
+};
+
+const browsers = process.env.TEST_CHROME_ONLY
+  ? ['chromium']
+  : ['chromium', 'webkit', 'firefox'];
+
+describe.each(browsers.map((t) => [t]))('[%s] batch beacon', (name) => {
+  const browserType: BrowserType<Browser> = playwright[name];
+  let browser: Browser;
+  let context: BrowserContext;
+  let page: Page;
+  let server: Server;
+
+  beforeAll(async () => {
+    log(`Launch ${name}`);
+    browser = await browserType.launch({});
+  });
+
+  afterAll(async () => {
+    log(`Close ${name}`);
+    await browser.close();
+  });
+
+  beforeEach(async () => {
+    log(expect.getState().currentTestName);
+    context = await browser.newContext({ ignoreHTTPSErrors: true });
+    page = await context.newPage();
+    server = await createTestServer();
+    server.get('/', (_request, response) => {
+      response.end('hello!');
+    });
+    page.on('console', async (msg) => {
+      log(`[console.${msg.type()}]\t=> ${msg.text()}`);
+    });
+    await page.goto(server.url);
+    await page.addScriptTag(script);
+    await page.waitForFunction(
+      () => window.__DEBUG_BEACON_TRANSPORTER === true
+    );
+  });
+
+  afterEach(async () => {
+    await context.close();
+    await server.close();
+  });
+
+  it('groups beacons to the same url into one json array request', async () => {
+    const results = [];
+    server.post('/api', (request, response) => {
+      results.push(request.body);
+      response.end('hello');
+    });
+    const beaconResults = await page.evaluate((url) => {
+      const { beacon } = window.createBatchBeacon({
+        batch: { maxCount: 3 },
+      });
+      return Promise.all([
+        beacon(`${url}/api`, '{"a":1}'),
+        beacon(`${url}/api`, '{"b":2}'),
+        beacon(`${url}/api`, '{"c":3}'),
+      ]);
+    }, server.url);
+    expect(beaconResults.length).toBe(3);
+    expect(beaconResults[0]).toEqual(beaconResults[2]);
+    await waitForExpect(() => {
+      expect(results).toEqual(['[{"a":1},{"b":2},{"c":3}]']);
+    });
+  });
+
+  it('flushes ndjson batch after max wait time', async () => {
+    const results = [];
+    server.post('/api', (request, response) => {
+      results.push({ body: request.body, time: Date.now() });
+      response.end('hello');
+    });
+    const start = Date.now();
+    await page.evaluate((url) => {
+      const { beacon } = window.createBatchBeacon({
+        batch: { maxWait: 1000, framing: 'ndjson' },
+      });
+      beacon(`${url}/api`, '{"a":1}');
+      beacon(`${url}/api`, '{"b":2}');
+    }, server.url);
+    await waitForExpect(() => {
+      expect(results.length).toBe(1);
+    });
+    expect(results[0].body).toBe('{"a":1}\n{"b":2}');
+    expect(results[0].time - start).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('starts a new batch when max bytes is reached', async () => {
+    const results = [];
+    server.post('/api', (request, response) => {
+      results.push(request.body);
+      response.end('hello');
+    });
+    await page.evaluate((url) => {
+      const { beacon, flush } = window.createBatchBeacon({
+        batch: { maxBytes: 20 },
+      });
+      beacon(`${url}/api`, '"0123456789"');
+      beacon(`${url}/api`, '"abcdefghij"');
+      return flush();
+    }, server.url);
+    await waitForExpect(() => {
+      expect(results).toEqual(['["0123456789"]', '["abcdefghij"]']);
+    });
+  });
+
+  it('flushes pending batch when page is hidden', async () => {
+    const results = [];
+    server.post('/api', (request, response) => {
+      results.push(request.body);
+      response.end('hello');
+    });
+    await page.evaluate((url) => {
+      const { beacon } = window.createBatchBeacon({
+        batch: { maxWait: 60 * 1000 },
+      });
+      beacon(`${url}/api`, '{"a":1}');
+      Object.defineProperty(document, 'visibilityState', {
+        value: 'hidden',
+        writable: true,
+      });
+      document.dispatchEvent(new Event('visibilitychange'));
+    }, server.url);
+    await waitForExpect(() => {
+      expect(results).toEqual(['[{"a":1}]']);
+    });
+  });
+});
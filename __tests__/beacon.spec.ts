@@ -5,7 +5,7 @@ import type { Browser, BrowserContext, BrowserType, Page } from 'playwright';
 import playwright from 'playwright';
 import waitForExpect from 'wait-for-expect';
 
-import type { createBeacon } from '../dist/';
+import type { createBeacon, xhrTransport } from '../dist/';
 import { log } from './utils';
 
 expect.extend({
@@ -28,6 +28,7 @@ expect.extend({
 declare global {
   interface Window {
     createBeacon: typeof createBeacon;
+    xhrTransport: typeof xhrTransport;
     __DEBUG_BEACON_TRANSPORTER: boolean;
   }
   namespace jest {
@@ -42,6 +43,7 @@ const script = {
   content: `
 ${fs.readFileSync(path.join(__dirname, '..', 'dist', 'bundle.esm.js'), 'utf8')}
 self.createBeacon = createBeacon;
+self.xhrTransport = xhrTransport;
 self.__DEBUG_BEACON_TRANSPORTER = true;
 `,
 };
@@ -341,6 +343,140 @@ describe.each(browsers.map((t) => [t]))('[%s] beacon', (name) => {
     }
   });
 
+  it('waits for Retry-After before in-memory retry', async () => {
+    const requests = [];
+    server.post('/api/retry', (_request, response) => {
+      requests.push(Date.now());
+      response.set('Retry-After', '2');
+      response.set('Access-Control-Expose-Headers', 'Retry-After');
+      response.sendStatus(502);
+    });
+    const result = await page.evaluate(
+      ([url]) => {
+        const { beacon } = window.createBeacon({
+          inMemoryRetry: {
+            attemptLimit: 1,
+            calculateRetryDelay: () => 1,
+          },
+          disablePersistenceRetry: true,
+        });
+        return beacon(`${url}/api/retry`, 'hi');
+      },
+      [server.url]
+    );
+    if (name !== 'firefox') {
+      expect(result).toEqual({
+        type: 'response',
+        drop: true,
+        statusCode: 502,
+        rawError: 'Bad Gateway',
+        retryAfter: 2000,
+        reason: 'in-memory-retry-exhausted',
+      });
+      expect(requests.length).toBe(2);
+      expect(requests[1] - requests[0]).toBeAround(2000);
+    }
+  });
+
+  it('resolves to timeout type object when request hangs', async () => {
+    let numberOfRequests = 0;
+    server.post('/api', () => {
+      // never respond
+      numberOfRequests++;
+    });
+    const result = await page.evaluate(
+      ([url]) => {
+        const { beacon } = window.createBeacon({
+          timeout: 1000,
+          disablePersistenceRetry: true,
+        });
+        return beacon(`${url}/api`, 'hi');
+      },
+      [server.url]
+    );
+    if (name !== 'firefox') {
+      expect(result).toEqual({
+        type: 'timeout',
+        drop: true,
+        rawError: expect.any(String),
+        reason: 'persistence-disabled',
+      });
+      expect(numberOfRequests).toBe(1);
+    }
+  });
+
+  it('sends plain object body as JSON', async () => {
+    const requests = [];
+    server.post('/api', (request, response) => {
+      requests.push({
+        contentType: request.header('content-type'),
+        body: request.body,
+      });
+      response.sendStatus(200);
+    });
+    await page.evaluate((url) => {
+      const { beacon } = window.createBeacon();
+      return beacon(`${url}/api`, { hello: 'world' });
+    }, server.url);
+    await waitForExpect(() => {
+      expect(requests.length).toEqual(1);
+    });
+    expect(requests[0].contentType).toBe('application/json');
+    expect(requests[0].body).toEqual({ hello: 'world' });
+  });
+
+  it('sends with the next transport when a transport can not send', async () => {
+    const requests = [];
+    server.post('/api', (request, response) => {
+      requests.push(request.body);
+      response.sendStatus(200);
+    });
+    const result = await page.evaluate((url) => {
+      const skipped = [];
+      const { beacon } = window.createBeacon({
+        transports: [
+          {
+            name: 'custom',
+            send: (request) => {
+              skipped.push(request.url);
+              return Promise.resolve(undefined);
+            },
+          },
+          window.xhrTransport,
+        ],
+      });
+      return beacon(`${url}/api`, 'transport').then((result) => ({
+        result,
+        skipped,
+      }));
+    }, server.url);
+    expect(result).toEqual({
+      result: { type: 'success', drop: false, statusCode: 200 },
+      skipped: [`${server.url}/api`],
+    });
+    expect(requests).toEqual(['transport']);
+  });
+
+  it('sends with XHR and retries when fetch is not supported', async () => {
+    let attempts = 0;
+    server.post('/api', (_request, response) => {
+      attempts++;
+      response.sendStatus(attempts === 1 ? 502 : 200);
+    });
+    const result = await page.evaluate((url) => {
+      Object.defineProperty(window, 'fetch', { value: undefined });
+      const { beacon } = window.createBeacon({
+        inMemoryRetry: {
+          attemptLimit: 1,
+          calculateRetryDelay: () => 100,
+        },
+      });
+      return beacon(`${url}/api`, 'no fetch');
+    }, server.url);
+    expect(result).toEqual({ type: 'success', drop: false, statusCode: 200 });
+    expect(attempts).toBe(2);
+  });
+
   it('can gzip compress payload', async () => {
     const requests = [];
     server.post('/api', (request, response) => {
@@ -372,6 +508,169 @@ describe.each(browsers.map((t) => [t]))('[%s] beacon', (name) => {
     // express knows gzip
     expect(requests[0].body).toBe('hi');
   });
+
+  it('compresses with deflate payloads above compressThreshold', async () => {
+    const requests = [];
+    server.post('/api', (request, response) => {
+      requests.push({
+        encoding: request.header('content-encoding'),
+        body: request.body,
+      });
+      response.sendStatus(200);
+    });
+    const longPayload = 'a'.repeat(20);
+    await page.evaluate(
+      ([url, payload]) => {
+        const { beacon } = window.createBeacon({
+          compress: 'deflate',
+          compressThreshold: 10,
+        });
+        beacon(`${url}/api`, 'hi');
+        beacon(`${url}/api`, payload);
+      },
+      [server.url, longPayload]
+    );
+    await waitForExpect(() => {
+      expect(requests.length).toEqual(2);
+    });
+    expect(requests).toEqual(
+      expect.arrayContaining([
+        { encoding: undefined, body: 'hi' },
+        { encoding: 'deflate', body: longPayload },
+      ])
+    );
+  });
+
+  if (name === 'firefox') {
+    it('sends headers as query parameters with sendBeacon', async () => {
+      const requests = [];
+      server.post('/api', (request, response) => {
+        requests.push({
+          query: request.query,
+          contentType: request.header('content-type'),
+          body: request.body,
+        });
+        response.sendStatus(200);
+      });
+      const result = await page.evaluate((url) => {
+        const { beacon } = window.createBeacon({ headersInQuery: true });
+        return beacon(`${url}/api`, 'hi', { 'x-custom': 'custom' });
+      }, server.url);
+      expect(result).toEqual({ type: 'unknown', drop: false });
+      await waitForExpect(() => {
+        expect(requests).toEqual([
+          {
+            query: { 'x-custom': 'custom' },
+            contentType: 'text/plain;charset=UTF-8',
+            body: 'hi',
+          },
+        ]);
+      });
+    });
+
+    it('sends compressed bodies with fetch instead of sendBeacon', async () => {
+      const requests = [];
+      server.post('/api', (request, response) => {
+        requests.push({
+          query: request.query,
+          encoding: request.header('content-encoding'),
+          body: request.body,
+        });
+        response.sendStatus(200);
+      });
+      const result = await page.evaluate((url) => {
+        const { beacon } = window.createBeacon({
+          compress: true,
+          headersInQuery: true,
+        });
+        return beacon(`${url}/api`, 'hi');
+      }, server.url);
+      // sendBeacon would only report `unknown`
+      expect(result).toEqual({ type: 'success', drop: false, statusCode: 200 });
+      expect(requests).toEqual([{ query: {}, encoding: 'gzip', body: 'hi' }]);
+    });
+  }
+
+  if (name !== 'firefox') {
+    it('persists sleeping in-memory retry when page is hidden', async () => {
+      const requests = [];
+      server.post('/api/retry', (_request, response) => {
+        requests.push(Date.now());
+        response.sendStatus(502);
+      });
+      const result = await page.evaluate(
+        ([url]) => {
+          const { beacon, database } = window.createBeacon({
+            inMemoryRetry: {
+              attemptLimit: 2,
+              calculateRetryDelay: () => 60 * 1000,
+            },
+          });
+          // @ts-ignore
+          window.database = database;
+          const resultPromise = beacon(`${url}/api/retry`, 'hi');
+          setTimeout(() => {
+            Object.defineProperty(document, 'visibilityState', {
+              value: 'hidden',
+              writable: true,
+            });
+            document.dispatchEvent(new Event('visibilitychange'));
+          }, 500);
+          return resultPromise;
+        },
+        [server.url]
+      );
+      expect(result).toEqual({
+        type: 'persisted',
+        drop: false,
+        statusCode: 502,
+      });
+      expect(requests.length).toBe(1);
+      await waitForExpect(async () => {
+        const storage = await page.evaluate(`database.peekQueue(1)`);
+        expect(storage).toEqual([
+          expect.objectContaining({ body: 'hi', attemptCount: 1 }),
+        ]);
+      });
+    });
+
+    it('makes final attempt for sleeping in-memory retry when page is hidden without persistence', async () => {
+      const requests = [];
+      server.post('/api/retry', ({ headers }, response) => {
+        requests.push(headers['x-retry-context']);
+        response.sendStatus(502);
+      });
+      const result = await page.evaluate(
+        ([url]) => {
+          const { beacon } = window.createBeacon({
+            inMemoryRetry: {
+              attemptLimit: 2,
+              headerName: 'x-retry-context',
+              calculateRetryDelay: () => 60 * 1000,
+            },
+            disablePersistenceRetry: true,
+          });
+          const resultPromise = beacon(`${url}/api/retry`, 'hi');
+          setTimeout(() => {
+            window.dispatchEvent(new Event('pagehide'));
+          }, 500);
+          return resultPromise;
+        },
+        [server.url]
+      );
+      expect(result).toEqual({
+        type: 'response',
+        drop: true,
+        statusCode: 502,
+        rawError: 'Bad Gateway',
+        reason: 'in-memory-retry-exhausted',
+      });
+      expect(requests).toEqual([
+        undefined,
+        JSON.stringify({ attempt: 1, errorCode: 502 }),
+      ]);
+    });
+  }
 });
 
 function getCloseTabEvent(
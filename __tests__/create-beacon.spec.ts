@@ -1,13 +1,82 @@
-import { createBeacon } from '../dist/bundle.cjs';
+import createTestServer, { Server } from '@xg-wang/create-test-server';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import waitForExpect from 'wait-for-expect';
+
+import { createBeacon, createFileRetryDB } from '../dist/bundle.cjs';
 import type { IRetryDBBase } from '../dist/index.d';
 
 describe('createBeacon', () => {
+  let server: Server | undefined;
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+    if (dir) {
+      fs.rmSync(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
   it('Can run noop when called in node', () => {
     expect(() => {
       createBeacon().beacon('/api', 'hello');
     }).not.toThrow();
   });
 
+  it('Sends with fetch and persists to a file in node', async () => {
+    server = await createTestServer();
+    const bodies = [];
+    let status = 503;
+    server.post('/api', (request, response) => {
+      bodies.push(request.body);
+      response.sendStatus(status);
+    });
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'beacon-'));
+    const file = path.join(dir, 'beacons.jsonl');
+    const database = createFileRetryDB({
+      path: file,
+      fileSystem: fs.promises,
+    });
+    const { beacon } = createBeacon({ retryDB: database });
+    const result = await beacon(`${server.url}/api`, 'hello');
+    expect(result).toEqual({ type: 'persisted', drop: false, statusCode: 503 });
+    await waitForExpect(() => {
+      expect(fs.existsSync(file)).toBe(true);
+      expect(fs.readFileSync(file, 'utf8')).toContain('"body":"hello"');
+    });
+    const reloaded = createFileRetryDB({
+      path: file,
+      fileSystem: fs.promises,
+    });
+    expect((await reloaded.peekQueue(1)).map((entry) => entry.body)).toEqual([
+      'hello',
+    ]);
+    status = 200;
+    await database.replayQueue();
+    expect(bodies).toEqual(['hello', 'hello']);
+    expect(await database.peekQueue(1)).toEqual([]);
+  });
+
+  it('Disables persistence when the file can not be read', async () => {
+    const changes = [];
+    // Reading a directory fails with EISDIR
+    const database = createFileRetryDB({
+      path: os.tmpdir(),
+      fileSystem: fs.promises,
+      persistenceRetry: {
+        onStorageChange: (storage) => changes.push(storage),
+      },
+    });
+    await waitForExpect(() => {
+      expect(changes).toEqual([undefined]);
+    });
+    expect(database.health).toBe('disabled');
+    expect(await database.peekQueue(1)).toEqual([]);
+  });
+
   it('Can pass in custom retryDB implementation', () => {
     let _pushToQueueCalled = false;
     let _notifyQueueCalled = false;
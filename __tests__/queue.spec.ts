@@ -5,12 +5,22 @@ import type { Browser, BrowserContext, BrowserType, Page } from 'playwright';
 import playwright from 'playwright';
 import waitForExpect from 'wait-for-expect';
 
-import type { createBeacon, RetryEntry } from '../dist';
+import type {
+  createBackgroundSyncHandler,
+  createBeacon,
+  LocalStorageRetryDB,
+  MemoryRetryDB,
+  RequestResult,
+  RetryEntry,
+} from '../dist';
 import { log } from './utils';
 
 declare global {
   interface Window {
     createBeacon: typeof createBeacon;
+    createBackgroundSyncHandler: typeof createBackgroundSyncHandler;
+    LocalStorageRetryDB: typeof LocalStorageRetryDB;
+    MemoryRetryDB: typeof MemoryRetryDB;
     __DEBUG_BEACON_TRANSPORTER: boolean;
   }
 }
@@ -20,6 +30,9 @@ const script = {
   content: `
 ${fs.readFileSync(path.join(__dirname, '..', 'dist', 'bundle.esm.js'), 'utf8')}
 self.createBeacon = createBeacon;
+self.createBackgroundSyncHandler = createBackgroundSyncHandler;
+self.LocalStorageRetryDB = LocalStorageRetryDB;
+self.MemoryRetryDB = MemoryRetryDB;
 self.__DEBUG_BEACON_TRANSPORTER = true;
 `,
 };
@@ -683,6 +696,1107 @@ describe.each(table)(
       await closePage(page2);
     });
 
+    it('does not replay persisted entry before Retry-After', async () => {
+      const results = [];
+      let retryAfterCount = 0;
+      server.post('/api/:status', ({ params }, res) => {
+        const status = +params.status;
+        results.push({ status, time: Date.now() });
+        if (status === 429 && retryAfterCount++ === 0) {
+          res.set('Retry-After', '3');
+          res.set('Access-Control-Expose-Headers', 'Retry-After');
+        }
+        res.status(status).send(`Status: ${status}`);
+      });
+
+      await page.evaluate(
+        ([url, bodyPayload]) => {
+          const { beacon } = window.createBeacon({
+            inMemoryRetry: {
+              attemptLimit: 0,
+            },
+            persistenceRetry: {
+              idbName: 'test-database',
+              attemptLimit: 2,
+              throttleWait: 200,
+            },
+          });
+          beacon(`${url}/api/429`, bodyPayload);
+          // Replay is paused, will be resumed after Retry-After
+          setTimeout(() => {
+            beacon(`${url}/api/200`, bodyPayload);
+          }, 1000);
+        },
+        [server.url, createBody(contentLength)]
+      );
+      await waitForExpect(() => {
+        expect(results.length).toBe(3);
+      }, 5000);
+      expect(results.map((r) => r.status)).toEqual([429, 200, 429]);
+      expect(results[2].time - results[0].time).toBeGreaterThanOrEqual(3000);
+    });
+
+    it('resumes replaying an entry shifted before its Retry-After', async () => {
+      const results = [];
+      server.post('/api', (_request, res) => {
+        results.push(Date.now());
+        res.sendStatus(200);
+      });
+
+      const replayAfter = await page.evaluate(
+        async ([url, bodyPayload]) => {
+          const { database } = window.createBeacon({
+            persistenceRetry: {
+              idbName: 'test-database',
+              replay: { mode: 'manual' },
+            },
+          });
+          const replayAfter = Date.now() + 1000;
+          database.pushToQueue({
+            url: `${url}/api`,
+            body: bodyPayload,
+            timestamp: Date.now(),
+            attemptCount: 1,
+            replayAfter,
+          });
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          // The entry is pushed back, nothing replays it again but the resume timer
+          await database.replayQueue();
+          return replayAfter;
+        },
+        [server.url, createBody(contentLength)]
+      );
+      await waitForExpect(() => {
+        expect(results.length).toBe(1);
+      }, 3000);
+      expect(results[0]).toBeGreaterThanOrEqual(replayAfter);
+    });
+
+    it('replays persisted entries only when asked in manual mode', async () => {
+      const results = [];
+      server.post('/api/:status', ({ params }, res) => {
+        const status = +params.status;
+        results.push(status);
+        res.status(status).send(`Status: ${status}`);
+      });
+
+      await page.evaluate(
+        ([url, bodyPayload]) => {
+          const { beacon, database } = window.createBeacon({
+            inMemoryRetry: {
+              attemptLimit: 0,
+            },
+            persistenceRetry: {
+              statusCodes: [999],
+              idbName: 'test-database',
+              throttleWait: 200,
+              replay: { mode: 'manual' },
+            },
+          });
+          // @ts-ignore
+          window.database = database;
+          beacon(`${url}/api/999`, bodyPayload);
+          setTimeout(() => {
+            beacon(`${url}/api/200`, bodyPayload);
+          }, 1000);
+        },
+        [server.url, createBody(contentLength)]
+      );
+      await waitForExpect(() => {
+        expect(results).toEqual([999, 200]);
+      });
+      await page.waitForTimeout(1000); // give extra 1s to confirm no retries fired
+      expect(results).toEqual([999, 200]);
+
+      await page.evaluate(`database.replayQueue()`);
+      expect(results).toEqual([999, 200, 999]);
+    });
+
+    it('replays persisted entries on startup', async () => {
+      const results = [];
+      server.post('/api/:status', ({ params }, res) => {
+        const status = +params.status;
+        results.push(status);
+        res.status(status).send(`Status: ${status}`);
+      });
+      const init = {
+        inMemoryRetry: {
+          attemptLimit: 0,
+        },
+        persistenceRetry: {
+          statusCodes: [999],
+          idbName: 'test-database',
+        },
+      };
+
+      await page.evaluate(
+        ([url, bodyPayload, beaconInit]) => {
+          return window
+            .createBeacon(beaconInit)
+            .beacon(`${url}/api/999`, bodyPayload);
+        },
+        [server.url, createBody(contentLength), init] as const
+      );
+      expect(results).toEqual([999]);
+
+      const page2 = await context.newPage();
+      await page2.goto(server.url);
+      await page2.addScriptTag(script);
+      await page2.waitForFunction(
+        () => window.__DEBUG_BEACON_TRANSPORTER === true
+      );
+      await page2.evaluate((beaconInit) => {
+        window.createBeacon({
+          ...beaconInit,
+          persistenceRetry: {
+            ...beaconInit.persistenceRetry,
+            replay: { mode: 'onStartup', startupDelay: 500 },
+          },
+        });
+      }, init);
+      await waitForExpect(() => {
+        expect(results).toEqual([999, 999]);
+      });
+      await closePage(page2);
+    });
+
+    it('replays persisted entries every interval while the page is visible', async () => {
+      const results = [];
+      let status = 999;
+      server.post('/api', (request, res) => {
+        results.push(request.body);
+        res.sendStatus(status);
+      });
+      function setVisibility(visibilityState: string): Promise<void> {
+        return page.evaluate((value) => {
+          Object.defineProperty(document, 'visibilityState', {
+            value,
+            writable: true,
+          });
+          document.dispatchEvent(new Event('visibilitychange'));
+        }, visibilityState);
+      }
+
+      await page.evaluate((url) => {
+        const { beacon, database } = window.createBeacon({
+          inMemoryRetry: {
+            attemptLimit: 0,
+          },
+          persistenceRetry: {
+            statusCodes: [999],
+            idbName: 'test-database',
+            replay: { mode: 'interval', interval: 500 },
+          },
+        });
+        // @ts-ignore
+        window.database = database;
+        return beacon(`${url}/api`, 'a');
+      }, server.url);
+      status = 200;
+      await waitForExpect(() => {
+        expect(results).toEqual(['a', 'a']);
+      });
+
+      await setVisibility('hidden');
+      await page.evaluate((url) => {
+        // @ts-ignore
+        window.database.pushToQueue({
+          url: `${url}/api`,
+          body: 'b',
+          timestamp: Date.now(),
+          attemptCount: 1,
+        });
+      }, server.url);
+      await page.waitForTimeout(1500); // give extra 1.5s to confirm no replays fired
+      expect(results).toEqual(['a', 'a']);
+
+      await setVisibility('visible');
+      await waitForExpect(() => {
+        expect(results).toEqual(['a', 'a', 'b']);
+      });
+    });
+
+    it('replays persisted entries when going back online', async () => {
+      const results = [];
+      server.post('/api/:status', ({ params }, res) => {
+        const status = +params.status;
+        results.push(status);
+        res.status(status).send(`Status: ${status}`);
+      });
+
+      await context.setOffline(true);
+      const result = await page.evaluate(
+        ([url, bodyPayload]) => {
+          const { beacon } = window.createBeacon({
+            inMemoryRetry: {
+              attemptLimit: 0,
+            },
+            persistenceRetry: {
+              idbName: 'test-database',
+              replayJitter: 100,
+            },
+          });
+          return beacon(`${url}/api/200`, bodyPayload);
+        },
+        [server.url, createBody(contentLength)]
+      );
+      expect(result.type).toBe('persisted');
+      expect(results.length).toBe(0);
+
+      await context.setOffline(false);
+      await waitForExpect(() => {
+        expect(results).toEqual([200]);
+      });
+    });
+
+    it('only the leader tab replays when tabs are coordinated', async () => {
+      const results = [];
+      server.post('/api/:status', ({ params }, res) => {
+        const status = +params.status;
+        results.push(status);
+        res.status(status).send(`Status: ${status}`);
+      });
+      const init = {
+        inMemoryRetry: {
+          attemptLimit: 0,
+        },
+        persistenceRetry: {
+          statusCodes: [999],
+          idbName: 'test-database',
+          coordinateTabs: true,
+        },
+      };
+      const sendBeacon = ([url, status, bodyPayload, beaconInit]: [
+        string,
+        number,
+        string,
+        typeof init
+      ]): Promise<RequestResult> => {
+        const replayed: number[] = [];
+        Object.assign(window, { replayed });
+        const { beacon } = window.createBeacon({
+          ...beaconInit,
+          persistenceRetry: {
+            ...beaconInit.persistenceRetry,
+            onResult: (result) => replayed.push(result.statusCode),
+          },
+        });
+        return beacon(`${url}/api/${status}`, bodyPayload);
+      };
+      const getReplayed = (): number[] =>
+        (window as unknown as { replayed: number[] }).replayed;
+
+      await page.evaluate(sendBeacon, [
+        server.url,
+        999,
+        createBody(contentLength),
+        init,
+      ]);
+      expect(results).toEqual([999]);
+
+      const page2 = await context.newPage();
+      await page2.goto(server.url);
+      await page2.addScriptTag(script);
+      await page2.waitForFunction(
+        () => window.__DEBUG_BEACON_TRANSPORTER === true
+      );
+      await page2.evaluate(sendBeacon, [
+        server.url,
+        200,
+        createBody(contentLength),
+        init,
+      ]);
+      await waitForExpect(() => {
+        expect(results).toEqual([999, 200, 999]);
+      });
+      // The first tab is the leader and replays for the second one
+      expect(await page.evaluate(getReplayed)).toEqual([999]);
+      expect(await page2.evaluate(getReplayed)).toEqual([]);
+      await closePage(page2);
+    });
+
+    it('hands the leadership over when the leader tab stops coordinating', async () => {
+      const results = [];
+      server.post('/api/:status', ({ params }, res) => {
+        const status = +params.status;
+        results.push(status);
+        res.status(status).send(`Status: ${status}`);
+      });
+      const init = {
+        inMemoryRetry: {
+          attemptLimit: 0,
+        },
+        persistenceRetry: {
+          statusCodes: [999],
+          idbName: 'test-database',
+          coordinateTabs: true,
+        },
+      };
+      const createTab = (beaconInit: typeof init): void => {
+        const replayed: number[] = [];
+        const created = window.createBeacon({
+          ...beaconInit,
+          persistenceRetry: {
+            ...beaconInit.persistenceRetry,
+            onResult: (result) => replayed.push(result.statusCode),
+          },
+        });
+        Object.assign(window, { replayed, ...created });
+      };
+      const sendBeacon = ([url, status]: [
+        string,
+        number
+      ]): Promise<RequestResult> =>
+        (
+          window as unknown as {
+            beacon: (url: string, body: string) => Promise<RequestResult>;
+          }
+        ).beacon(`${url}/api/${status}`, 'hi');
+      const getReplayed = (): number[] =>
+        (window as unknown as { replayed: number[] }).replayed;
+
+      await page.evaluate(createTab, init);
+      await page.evaluate(sendBeacon, [server.url, 999]);
+      expect(results).toEqual([999]);
+
+      const page2 = await context.newPage();
+      await page2.goto(server.url);
+      await page2.addScriptTag(script);
+      await page2.waitForFunction(
+        () => window.__DEBUG_BEACON_TRANSPORTER === true
+      );
+      await page2.evaluate(createTab, init);
+      await page.evaluate(() =>
+        (
+          window as unknown as { database: { closeTabCoordination(): void } }
+        ).database.closeTabCoordination()
+      );
+      await page2.evaluate(sendBeacon, [server.url, 200]);
+      await waitForExpect(() => {
+        expect(results).toEqual([999, 200, 999]);
+      });
+      // The second tab took the lock released by the first one
+      expect(await page.evaluate(getReplayed)).toEqual([]);
+      expect(await page2.evaluate(getReplayed)).toEqual([999]);
+      await closePage(page2);
+    });
+
+    it('drops persisted entries older than maxAge instead of replaying', async () => {
+      const results = [];
+      server.post('/api/:status', ({ params }, res) => {
+        const status = +params.status;
+        results.push(status);
+        res.status(status).send(`Status: ${status}`);
+      });
+
+      const replayResults = await page.evaluate(
+        ([url, bodyPayload]) => {
+          const replayResults: RequestResult[] = [];
+          const { beacon } = window.createBeacon({
+            inMemoryRetry: {
+              attemptLimit: 0,
+            },
+            persistenceRetry: {
+              statusCodes: [999],
+              idbName: 'test-database',
+              maxAge: 500,
+              onResult: (result) => replayResults.push(result),
+            },
+          });
+          return beacon(`${url}/api/999`, bodyPayload)
+            .then(() => new Promise((resolve) => setTimeout(resolve, 1000)))
+            .then(() => beacon(`${url}/api/200`, bodyPayload))
+            .then(() => new Promise((resolve) => setTimeout(resolve, 1000)))
+            .then(() => replayResults);
+        },
+        [server.url, createBody(contentLength)]
+      );
+      expect(results).toEqual([999, 200]);
+      expect(replayResults).toEqual([
+        { type: 'dropped', drop: true, reason: 'expired' },
+      ]);
+    });
+
+    it('reports evicted entries as dropped', async () => {
+      server.post('/api', (_request, res) => {
+        res.sendStatus(999);
+      });
+
+      const dropped = await page.evaluate(async (url) => {
+        const dropped: RequestResult[] = [];
+        const { beacon } = window.createBeacon({
+          inMemoryRetry: {
+            attemptLimit: 0,
+          },
+          persistenceRetry: {
+            statusCodes: [999],
+            idbName: 'test-database',
+            maxNumber: 2,
+            batchEvictionNumber: 1,
+            onResult: (result) => dropped.push(result),
+          },
+        });
+        for (const body of ['a', 'b', 'c']) {
+          await beacon(`${url}/api`, body);
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+        return dropped;
+      }, server.url);
+      expect(dropped).toEqual([
+        { type: 'dropped', drop: true, reason: 'evicted' },
+      ]);
+    });
+
+    it('evicts entries by eviction policy and calls onEvict', async () => {
+      server.post('/api', (_request, res) => {
+        res.sendStatus(999);
+      });
+
+      const evicted = await page.evaluate(async (url) => {
+        const evicted: string[] = [];
+        const { beacon } = window.createBeacon({
+          inMemoryRetry: {
+            attemptLimit: 0,
+          },
+          persistenceRetry: {
+            statusCodes: [999],
+            idbName: 'test-database',
+            maxNumber: 2,
+            batchEvictionNumber: 1,
+            evictionPolicy: 'largest',
+            onEvict: (entries) =>
+              entries.forEach((entry) => evicted.push(entry.body as string)),
+          },
+        });
+        for (const body of ['a', 'large', 'bb']) {
+          await beacon(`${url}/api`, body);
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+        return evicted;
+      }, server.url);
+      expect(evicted).toEqual(['large']);
+    });
+
+    it('evicts entries when exceeding maxBytes', async () => {
+      server.post('/api', (_request, res) => {
+        res.sendStatus(999);
+      });
+
+      const { evicted, stored } = await page.evaluate(async (url) => {
+        const evicted: string[] = [];
+        const { beacon, database } = window.createBeacon({
+          inMemoryRetry: {
+            attemptLimit: 0,
+          },
+          persistenceRetry: {
+            statusCodes: [999],
+            idbName: 'test-database',
+            maxBytes: 10,
+            evictionPolicy: 'oldest',
+            onEvict: (entries) =>
+              entries.forEach((entry) => evicted.push(entry.body as string)),
+          },
+        });
+        for (const body of ['aaaa', 'bbbb', 'cccc']) {
+          await beacon(`${url}/api`, body);
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+        return { evicted, stored: await database.peekQueue(10) };
+      }, server.url);
+      expect(evicted).toEqual(['aaaa']);
+      expect(stored).toEqual([
+        expect.objectContaining({ body: 'bbbb', size: 4 }),
+        expect.objectContaining({ body: 'cccc', size: 4 }),
+      ]);
+    });
+
+    it('evicts and pushes again when the quota is exceeded on commit', async () => {
+      server.post('/api', (_request, res) => {
+        res.sendStatus(999);
+      });
+
+      const { evicted, stored } = await page.evaluate(async (url) => {
+        const evicted: string[] = [];
+        const { beacon, database } = window.createBeacon({
+          inMemoryRetry: {
+            attemptLimit: 0,
+          },
+          persistenceRetry: {
+            statusCodes: [999],
+            idbName: 'test-database',
+            batchEvictionNumber: 1,
+            evictionPolicy: 'oldest',
+            onEvict: (entries) =>
+              entries.forEach((entry) => evicted.push(entry.body as string)),
+          },
+        });
+        for (const body of ['a', 'b']) {
+          await beacon(`${url}/api`, body);
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+        // The put succeeds and the transaction aborts as if committing exceeded the quota
+        const put = IDBObjectStore.prototype.put;
+        IDBObjectStore.prototype.put = function (...args) {
+          IDBObjectStore.prototype.put = put;
+          const request = put.apply(this, args);
+          const transaction = this.transaction;
+          Object.defineProperty(transaction, 'error', {
+            value: new DOMException('Quota exceeded', 'QuotaExceededError'),
+          });
+          request.addEventListener('success', () => transaction.abort());
+          return request;
+        };
+        await beacon(`${url}/api`, 'c');
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return {
+          evicted,
+          stored: (await database.peekQueue(10)).map(({ body }) => body),
+        };
+      }, server.url);
+      expect(evicted).toEqual(['a']);
+      expect(stored).toEqual(['b', 'c']);
+    });
+
+    function persistWithStorageUsage(usage: number): Promise<string[]> {
+      server.post('/api', (_request, res) => {
+        res.sendStatus(999);
+      });
+      return page.evaluate(
+        async ([url, usage]) => {
+          navigator.storage.estimate = () =>
+            Promise.resolve({ usage, quota: usage });
+          const { beacon, database } = window.createBeacon({
+            inMemoryRetry: {
+              attemptLimit: 0,
+            },
+            persistenceRetry: {
+              statusCodes: [999],
+              idbName: 'test-database',
+              batchEvictionNumber: 300,
+              evictionPolicy: 'oldest',
+            },
+          });
+          for (const body of ['a', 'b', 'c']) {
+            await beacon(`${url}/api`, body);
+            await new Promise((resolve) => setTimeout(resolve, 50));
+          }
+          return (await database.peekQueue(10)).map(
+            ({ body }) => body as string
+          );
+        },
+        [server.url, usage] as const
+      );
+    }
+
+    it('evicts ahead of time all but the pushed entry when the storage is nearly full', async () => {
+      expect(await persistWithStorageUsage(10)).toEqual(['c']);
+    });
+
+    it('does not evict ahead of time when the storage is mostly used by something else', async () => {
+      expect(await persistWithStorageUsage(1000000)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('persists binary, form and JSON bodies', async () => {
+      server.post('/api', (_request, res) => {
+        res.sendStatus(999);
+      });
+
+      const stored = await page.evaluate(async (url) => {
+        const { beacon, database } = window.createBeacon({
+          inMemoryRetry: {
+            attemptLimit: 0,
+          },
+          persistenceRetry: {
+            statusCodes: [999],
+            idbName: 'test-database',
+          },
+        });
+        const formData = new FormData();
+        formData.append('a', '1');
+        const bodies = [
+          new Uint8Array([1, 2, 3]),
+          formData,
+          new URLSearchParams('b=2'),
+          { c: 3 },
+        ];
+        for (const body of bodies) {
+          await beacon(`${url}/api`, body);
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+        const entries = await database.peekQueue(10);
+        return entries.map(({ body }) => {
+          if (body instanceof Uint8Array) {
+            return Array.from(body);
+          }
+          if (body instanceof FormData) {
+            return Array.from(body.entries());
+          }
+          if (body instanceof URLSearchParams) {
+            return body.toString();
+          }
+          return body;
+        });
+      }, server.url);
+      expect(stored).toEqual([[1, 2, 3], [['a', '1']], 'b=2', { c: 3 }]);
+    });
+
+    it('persists with localStorage and memory databases', async () => {
+      const requests = [];
+      let status = 999;
+      server.post('/api', (request, res) => {
+        requests.push(request.body);
+        res.sendStatus(status);
+      });
+
+      const persisted = await page.evaluate(async (url) => {
+        const init = {
+          inMemoryRetry: {
+            attemptLimit: 0,
+          },
+          persistenceRetry: {
+            statusCodes: [999],
+            idbName: 'test-storage',
+            maxNumber: 2,
+            batchEvictionNumber: 1,
+          },
+        };
+        const databases = [
+          new window.LocalStorageRetryDB(init),
+          new window.MemoryRetryDB(init),
+        ];
+        const persisted = [];
+        for (const database of databases) {
+          const { beacon } = window.createBeacon({
+            ...init,
+            retryDB: database,
+          });
+          for (const body of ['a', 'b', 'c']) {
+            await beacon(`${url}/api`, body);
+            await new Promise((resolve) => setTimeout(resolve, 50));
+          }
+          persisted.push({
+            front: (await database.peekQueue(10)).map(({ body }) => body),
+            back: (await database.peekBackQueue(1)).map(({ body }) => body),
+          });
+        }
+        return {
+          persisted,
+          localStorage: window.localStorage.getItem('test-storage'),
+        };
+      }, server.url);
+      expect(persisted.persisted).toEqual([
+        { front: ['b', 'c'], back: ['c'] },
+        { front: ['b', 'c'], back: ['c'] },
+      ]);
+      expect(persisted.localStorage).toContain('"body":"c"');
+
+      status = 200;
+      requests.length = 0;
+      await page.evaluate(async () => {
+        const database = new window.LocalStorageRetryDB({
+          persistenceRetry: { idbName: 'test-storage' },
+        });
+        await database.replayQueue();
+      });
+      expect(requests).toEqual(['b', 'c']);
+      expect(
+        await page.evaluate(() => window.localStorage.getItem('test-storage'))
+      ).toBeNull();
+    });
+
+    it('keeps entries of localStorage databases sharing a key', async () => {
+      const persisted = await page.evaluate(async () => {
+        const init = { persistenceRetry: { idbName: 'test-shared' } };
+        // Like two tabs saving to the same localStorage key
+        const databases = [
+          new window.LocalStorageRetryDB(init),
+          new window.LocalStorageRetryDB(init),
+        ];
+        await Promise.all(databases.map((database) => database.peekQueue(1)));
+        databases.forEach((database, i) =>
+          database.pushToQueue({
+            url: '/api',
+            body: `${i}`,
+            timestamp: Date.now() + i,
+            attemptCount: 1,
+          })
+        );
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        return Promise.all(
+          databases.map(async (database) =>
+            (await database.peekQueue(10)).map(({ body }) => body)
+          )
+        );
+      });
+      expect(persisted).toEqual([
+        ['0', '1'],
+        ['0', '1'],
+      ]);
+    });
+
+    it('keeps entries created in the same millisecond', async () => {
+      const persisted = await page.evaluate(async () => {
+        const init = { persistenceRetry: { idbName: 'test-same-timestamp' } };
+        const databases = [
+          window.createBeacon(init).database,
+          new window.LocalStorageRetryDB(init),
+          new window.MemoryRetryDB(init),
+        ];
+        const timestamp = Date.now();
+        const persisted = [];
+        for (const database of databases) {
+          for (const body of ['a', 'b', 'c']) {
+            database.pushToQueue({
+              url: '/api',
+              body,
+              timestamp,
+              attemptCount: 1,
+            });
+          }
+          await new Promise((resolve) => setTimeout(resolve, 100));
+          persisted.push(
+            (await database.peekQueue(10)).map(({ body }) => body)
+          );
+        }
+        return persisted;
+      });
+      expect(persisted).toEqual([
+        ['a', 'b', 'c'],
+        ['a', 'b', 'c'],
+        ['a', 'b', 'c'],
+      ]);
+    });
+
+    it('moves entries stored by version 1 keyed on timestamp', async () => {
+      const persisted = await page.evaluate(async () => {
+        await new Promise((resolve) => {
+          const request = indexedDB.open('test-legacy');
+          request.onupgradeneeded = () => {
+            request.result
+              .createObjectStore('beacons', { keyPath: 'timestamp' })
+              .put({ url: '/api', body: 'a', timestamp: 1, attemptCount: 1 });
+          };
+          request.onsuccess = () => {
+            request.result.close();
+            resolve(undefined);
+          };
+        });
+        const { database } = window.createBeacon({
+          persistenceRetry: { idbName: 'test-legacy' },
+        });
+        return database.peekQueue(10);
+      });
+      // The size is computed while moving the entry
+      expect(persisted).toEqual([
+        { url: '/api', body: 'a', timestamp: 1, attemptCount: 1, size: 1 },
+      ]);
+    });
+
+    it('moves entries to the next storage when the storage fails', async () => {
+      server.post('/api', (_request, res) => {
+        res.sendStatus(999);
+      });
+
+      const result = await page.evaluate(async (url) => {
+        const changes = [];
+        const { beacon, database } = window.createBeacon({
+          inMemoryRetry: {
+            attemptLimit: 0,
+          },
+          persistenceRetry: {
+            statusCodes: [999],
+            idbName: 'test-fallback',
+            storage: ['localstorage', 'memory'],
+            onStorageChange: (storage) => changes.push(storage),
+          },
+        });
+        const initialStorage = database.activeStorage;
+        for (const body of ['a', 'b']) {
+          await beacon(`${url}/api`, body);
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+        Storage.prototype.setItem = () => {
+          throw new DOMException('Storage is broken', 'UnknownError');
+        };
+        await beacon(`${url}/api`, 'c');
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return {
+          initialStorage,
+          activeStorage: database.activeStorage,
+          changes,
+          persisted: (await database.peekQueue(10)).map(({ body }) => body),
+          localStorage: window.localStorage.getItem('test-fallback'),
+        };
+      }, server.url);
+      expect(result).toEqual({
+        initialStorage: 'localstorage',
+        activeStorage: 'memory',
+        changes: ['memory'],
+        persisted: ['a', 'b', 'c'],
+        localStorage: null,
+      });
+    });
+
+    it('reopens IndexedDB after an error or a version change', async () => {
+      server.post('/api', (_request, res) => {
+        res.sendStatus(999);
+      });
+
+      const result = await page.evaluate(async (url) => {
+        const healthChanges = [];
+        const { beacon, database } = window.createBeacon({
+          inMemoryRetry: {
+            attemptLimit: 0,
+          },
+          persistenceRetry: {
+            statusCodes: [999],
+            idbName: 'test-reopen',
+            onHealthChange: (health) => healthChanges.push(health),
+          },
+        });
+        const put = IDBObjectStore.prototype.put;
+        IDBObjectStore.prototype.put = function () {
+          IDBObjectStore.prototype.put = put;
+          throw new DOMException('Connection lost', 'UnknownError');
+        };
+        await beacon(`${url}/api`, 'a');
+        await new Promise((resolve) => setTimeout(resolve, 1500));
+        const reopened = (await database.peekQueue(10)).map(({ body }) => body);
+
+        // Another tab deleting the database waits for open connections to close
+        const deleted = await new Promise((resolve) => {
+          const request = indexedDB.deleteDatabase('test-reopen');
+          request.onsuccess = () => resolve('deleted');
+          request.onblocked = () => resolve('blocked');
+        });
+        await beacon(`${url}/api`, 'b');
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return {
+          reopened,
+          deleted,
+          persisted: (await database.peekQueue(10)).map(({ body }) => body),
+          health: database.health,
+          healthChanges,
+        };
+      }, server.url);
+      expect(result).toEqual({
+        reopened: ['a'],
+        deleted: 'deleted',
+        persisted: ['b'],
+        health: 'healthy',
+        healthChanges: ['degraded', 'healthy'],
+      });
+    });
+
+    it('drops an entry IndexedDB can not store and keeps the storage', async () => {
+      const result = await page.evaluate(async () => {
+        const dropped: RequestResult[] = [];
+        const { database } = window.createBeacon({
+          persistenceRetry: {
+            idbName: 'test-unstorable',
+            onResult: (result) => dropped.push(result),
+          },
+        });
+        database.pushToQueue({
+          url: '/api',
+          body: 'a',
+          // Functions can not be structured cloned
+          headers: { 'x-header': (() => 'a') as unknown as string },
+          timestamp: Date.now(),
+          attemptCount: 1,
+        });
+        database.pushToQueue({
+          url: '/api',
+          body: 'b',
+          timestamp: Date.now(),
+          attemptCount: 1,
+        });
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        return {
+          dropped,
+          persisted: (await database.peekQueue(10)).map(({ body }) => body),
+          health: database.health,
+          activeStorage: database.activeStorage,
+        };
+      });
+      expect(result).toEqual({
+        dropped: [{ type: 'dropped', drop: true, reason: 'unstorable' }],
+        persisted: ['b'],
+        health: 'healthy',
+        activeStorage: 'indexeddb',
+      });
+    });
+
+    it('replays higher priority entries first in configured order', async () => {
+      const results = [];
+      server.post('/api', (request, res) => {
+        results.push(request.body);
+        res.sendStatus(results.length <= 4 ? 999 : 200);
+      });
+
+      await page.evaluate(async (url) => {
+        const { beacon } = window.createBeacon({
+          inMemoryRetry: {
+            attemptLimit: 0,
+          },
+          persistenceRetry: {
+            statusCodes: [999],
+            idbName: 'test-database',
+            replayOrder: 'lifo',
+          },
+        });
+        const sleep = (): Promise<void> =>
+          new Promise((resolve) => setTimeout(resolve, 50));
+        await beacon(`${url}/api`, 'low', {}, { priority: 'low' });
+        await sleep();
+        await beacon(`${url}/api`, 'normal-a');
+        await sleep();
+        await beacon(`${url}/api`, 'high', {}, { priority: 'high' });
+        await sleep();
+        await beacon(`${url}/api`, 'normal-b', {}, { priority: 'normal' });
+        await sleep();
+        await beacon(`${url}/api`, 'trigger');
+      }, server.url);
+      await waitForExpect(() => {
+        expect(results).toEqual([
+          'low',
+          'normal-a',
+          'high',
+          'normal-b',
+          'trigger',
+          'high',
+          'normal-b',
+          'normal-a',
+          'low',
+        ]);
+      });
+    });
+
+    it('stores compressed body and replays it as is', async () => {
+      const results = [];
+      server.post('/api', (request, res) => {
+        results.push({
+          encoding: request.header('content-encoding'),
+          body: request.body,
+        });
+        res.sendStatus(results.length === 1 ? 999 : 200);
+      });
+
+      const stored = await page.evaluate(async (url) => {
+        const { beacon, database } = window.createBeacon({
+          inMemoryRetry: {
+            attemptLimit: 0,
+          },
+          persistenceRetry: {
+            statusCodes: [999],
+            idbName: 'test-database',
+            storeCompressed: true,
+          },
+          compress: true,
+        });
+        await beacon(`${url}/api`, 'hello');
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        const [entry] = await database.peekQueue(1);
+        await beacon(`${url}/api`, 'trigger');
+        return {
+          contentEncoding: entry.contentEncoding,
+          isBinary: entry.body instanceof Uint8Array,
+        };
+      }, server.url);
+      expect(stored).toEqual({ contentEncoding: 'gzip', isBinary: true });
+      await waitForExpect(() => {
+        expect(results).toEqual([
+          { encoding: 'gzip', body: 'hello' },
+          { encoding: 'gzip', body: 'trigger' },
+          { encoding: 'gzip', body: 'hello' },
+        ]);
+      });
+    });
+
+    it('replays entries with the method they were sent with', async () => {
+      const results = [];
+      server.put('/api', (request, res) => {
+        results.push(`PUT ${request.body}`);
+        res.sendStatus(results.length === 1 ? 999 : 200);
+      });
+      server.post('/api', (request, res) => {
+        results.push(`POST ${request.body}`);
+        res.sendStatus(200);
+      });
+
+      await page.evaluate(async (url) => {
+        const { beacon } = window.createBeacon({
+          inMemoryRetry: {
+            attemptLimit: 0,
+          },
+          persistenceRetry: {
+            statusCodes: [999],
+            idbName: 'test-database',
+          },
+          credentials: 'omit',
+        });
+        await beacon(`${url}/api`, 'put', {}, { method: 'PUT' });
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        await beacon(`${url}/api`, 'trigger');
+      }, server.url);
+      await waitForExpect(() => {
+        expect(results).toEqual(['PUT put', 'POST trigger', 'PUT put']);
+      });
+    });
+
+    it('background sync handler replays persisted entries', async () => {
+      const results = [];
+      server.post('/api/:status', ({ params }, res) => {
+        const status = +params.status;
+        results.push(status);
+        res.status(status).send(`Status: ${status}`);
+      });
+      const init = {
+        inMemoryRetry: {
+          attemptLimit: 0,
+        },
+        persistenceRetry: {
+          statusCodes: [999],
+          idbName: 'test-database',
+          attemptLimit: 1,
+          backgroundSyncTag: 'test-sync',
+        },
+      };
+
+      const result = await page.evaluate(
+        ([url, bodyPayload, beaconInit]) => {
+          const { beacon } = window.createBeacon(beaconInit);
+          return beacon(`${url}/api/999`, bodyPayload);
+        },
+        [server.url, createBody(contentLength), init] as const
+      );
+      expect(result.type).toBe('persisted');
+
+      const syncResults = await page.evaluate((beaconInit) => {
+        const handleSync = window.createBackgroundSyncHandler(beaconInit);
+        const waitUntilPromises: Promise<unknown>[] = [];
+        handleSync({
+          tag: 'other-sync',
+          waitUntil: (p) => waitUntilPromises.push(p),
+        });
+        handleSync({
+          tag: 'test-sync',
+          waitUntil: (p) => waitUntilPromises.push(p),
+        });
+        return Promise.all(
+          waitUntilPromises.map((p) =>
+            p.then(
+              () => 'fulfilled',
+              () => 'rejected'
+            )
+          )
+        );
+      }, init);
+      // Entry exceeded attempt limit and was dropped, nothing left to sync
+      expect(syncResults).toEqual(['fulfilled']);
+      expect(results).toEqual([999, 999]);
+    });
+
     it('Adds performance measurement for IDB open', async () => {
       const results = [];
       server.post('/api/:status', ({ params, headers }, res) => {
@@ -0,0 +1,168 @@
+import createTestServer, { Server } from '@xg-wang/create-test-server';
+import fs from 'fs';
+import path from 'path';
+import type { Browser, BrowserContext, BrowserType, Page } from 'playwright';
+import playwright from 'playwright';
+import waitForExpect from 'wait-for-expect';
+
+import type { BeaconInit, RequestResult, RetryEntry } from '../dist';
+import { log } from './utils';
+
+declare global {
+  interface Window {
+    runInWorker: (
+      url: string,
+      body: string,
+      init: BeaconInit,
+      retryDelay?: number
+    ) => Promise<RequestResult>;
+    peekWorkerQueue: () => Promise<RetryEntry[]>;
+  }
+}
+
+const workerSource = `
+${fs.readFileSync(path.join(__dirname, '..', 'dist', 'bundle.esm.js'), 'utf8')}
+self.__DEBUG_BEACON_TRANSPORTER = true;
+let database;
+self.onmessage = (event) => {
+  const { type, url, body, init, retryDelay } = event.data;
+  if (type === 'peek') {
+    database.peekQueue(10).then((entries) => self.postMessage(entries));
+    return;
+  }
+  // Functions can not be posted to the worker, the retry delay callback is created here
+  const created = createBeacon(
+    retryDelay === undefined
+      ? init
+      : {
+          ...init,
+          inMemoryRetry: {
+            ...init.inMemoryRetry,
+            calculateRetryDelay: () => retryDelay,
+          },
+        }
+  );
+  database = created.database;
+  created.beacon(url, body).then((result) => self.postMessage(result));
+};
+`;
+
+const script = {
+  type: 'module',
+  content: `
+const workerUrl = URL.createObjectURL(
+  new Blob([${JSON.stringify(workerSource)}], { type: 'text/javascript' })
+);
+let worker;
+self.runInWorker = (url, body, init, retryDelay) =>
+  new Promise((resolve) => {
+    worker = new Worker(workerUrl, { type: 'module' });
+    worker.onmessage = (event) => resolve(event.data);
+    worker.postMessage({ type: 'beacon', url, body, init, retryDelay });
+  });
+self.peekWorkerQueue = () =>
+  new Promise((resolve) => {
+    worker.onmessage = (event) => resolve(event.data);
+    worker.postMessage({ type: 'peek' });
+  });
+`,
+};
+
+// Module workers are not supported in every browser version playwright ships
+const browsers = process.env.TEST_CHROME_ONLY
+  ? ['chromium']
+  : ['chromium', 'webkit'];
+
+describe.each(browsers.map((t) => [t]))('[%s] beacon in worker', (name) => {
+  const browserType: BrowserType<Browser> = playwright[name];
+  let browser: Browser;
+  let context: BrowserContext;
+  let page: Page;
+  let server: Server;
+
+  beforeAll(async () => {
+    log(`Launch ${name}`);
+    browser = await browserType.launch({});
+  });
+
+  afterAll(async () => {
+    log(`Close ${name}`);
+    await browser.close();
+  });
+
+  beforeEach(async () => {
+    log(expect.getState().currentTestName);
+    context = await browser.newContext({ ignoreHTTPSErrors: true });
+    page = await context.newPage();
+    server = await createTestServer();
+    server.get('/', (_request, response) => {
+      response.end('hello!');
+    });
+    page.on('console', async (msg) => {
+      log(`[console.${msg.type()}]\t=> ${msg.text()}`);
+    });
+    await page.goto(server.url);
+    await page.addScriptTag(script);
+    await page.waitForFunction(() => typeof window.runInWorker === 'function');
+  });
+
+  afterEach(async () => {
+    await context.close();
+    await server.close();
+  });
+
+  it('sends beacon with fetch from a worker', async () => {
+    const results = [];
+    server.post('/api', (request, response) => {
+      results.push(request.body);
+      response.end('hello');
+    });
+    const result = await page.evaluate((url) => {
+      return window.runInWorker(`${url}/api`, 'hello', {});
+    }, server.url);
+    expect(result).toEqual({
+      type: 'success',
+      drop: false,
+      statusCode: 200,
+    });
+    await waitForExpect(() => {
+      expect(results).toEqual(['hello']);
+    });
+  });
+
+  it('retries in memory and persists to IDB from a worker', async () => {
+    const results = [];
+    server.post('/api', (request, response) => {
+      results.push(request.body);
+      response.sendStatus(results.length === 1 ? 502 : 429);
+    });
+    const result = await page.evaluate((url) => {
+      return window.runInWorker(
+        `${url}/api`,
+        'hello',
+        {
+          inMemoryRetry: {
+            attemptLimit: 1,
+          },
+          persistenceRetry: {
+            idbName: 'test-database',
+          },
+        },
+        100
+      );
+    }, server.url);
+    expect(result).toEqual({
+      type: 'persisted',
+      drop: false,
+      statusCode: 429,
+    });
+    expect(results).toEqual(['hello', 'hello']);
+    // The entry is written to the store after the beacon resolves
+    await waitForExpect(async () => {
+      const entries = await page.evaluate(() => window.peekWorkerQueue());
+      expect(entries).toEqual([
+        expect.objectContaining({ body: 'hello', attemptCount: 2 }),
+      ]);
+    });
+  });
+});
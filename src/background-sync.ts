@@ -0,0 +1,44 @@
+import { createRetryDB } from './beacon';
+import type { BackgroundSyncEvent, BeaconInit } from './interfaces';
+import { debug } from './utils';
+
+/**
+ * Create a `sync` event listener for service worker. It replays the entries persisted
+ * with the same `persistenceRetry` config, and fails the event to let the browser
+ * schedule another sync when entries are left in the store.
+ *
+ * @example
+ * ```js
+ * self.addEventListener('sync', createBackgroundSyncHandler({
+ *   persistenceRetry: { backgroundSyncTag: 'beacon' },
+ * }));
+ * ```
+ *
+ * @public
+ */
+export function createBackgroundSyncHandler(
+  init: BeaconInit<unknown> = {}
+): (event: BackgroundSyncEvent) => void {
+  // The service worker must not hold the leadership of the tabs
+  const database = createRetryDB({
+    ...init,
+    persistenceRetry: { ...init.persistenceRetry, coordinateTabs: false },
+  });
+  const tag = init.persistenceRetry?.backgroundSyncTag;
+  return (event) => {
+    if (!tag || event.tag !== tag) {
+      return;
+    }
+    debug(() => `Replaying from background sync ${tag}`);
+    event.waitUntil(
+      database
+        .replayQueue()
+        .then(() => database.peekQueue(1))
+        .then((entries) => {
+          if (entries.length > 0 && !event.lastChance) {
+            throw new Error('Entries left in the store after replay');
+          }
+        })
+    );
+  };
+}
@@ -0,0 +1,182 @@
+import { createBeacon } from './beacon';
+import type {
+  BatchBeaconInit,
+  BatchInit,
+  BeaconBody,
+  BeaconFunc,
+  BeaconOptions,
+  IRetryDBBase,
+  RequestResult,
+} from './interfaces';
+import type { RetryDB } from './queue';
+import { byteLength, debug, isJsonBody, onPageHide } from './utils';
+
+const defaultBatchConfig: Required<BatchInit> = {
+  maxCount: 20,
+  // Stay below the 64kb body limit of keepalive fetch and sendBeacon
+  maxBytes: 60 * 1024,
+  maxWait: 5000,
+  flushOnPageHide: true,
+  framing: 'json-array',
+};
+
+interface PendingBatch {
+  url: string;
+  headers?: Record<string, string>;
+  options?: BeaconOptions;
+  bodies: string[];
+  byteSize: number;
+  resolvers: Array<(result: RequestResult) => void>;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+function getBatchKey(
+  url: string,
+  headers?: Record<string, string>,
+  options?: BeaconOptions
+): string {
+  return `${url}\n${JSON.stringify(headers || {})}\n${JSON.stringify(
+    options || {}
+  )}`;
+}
+
+function frameBodies(
+  framing: Required<BatchInit>['framing'],
+  bodies: string[]
+): string {
+  if (typeof framing === 'function') {
+    return framing(bodies);
+  }
+  return framing === 'ndjson' ? bodies.join('\n') : `[${bodies.join(',')}]`;
+}
+
+class Batcher {
+  private batches = new Map<string, PendingBatch>();
+
+  constructor(private send: BeaconFunc, private config: Required<BatchInit>) {}
+
+  add(
+    url: string,
+    rawBody: BeaconBody,
+    headers?: Record<string, string>,
+    options?: BeaconOptions
+  ): Promise<RequestResult> {
+    if (typeof rawBody !== 'string' && !isJsonBody(rawBody)) {
+      // Binary and form bodies could not be framed together
+      return this.send(url, rawBody, headers, options);
+    }
+    const body = isJsonBody(rawBody) ? JSON.stringify(rawBody) : rawBody;
+    const key = getBatchKey(url, headers, options);
+    // Account for one byte of separator per body
+    const bodyByteSize = byteLength(body) + 1;
+    let batch = this.batches.get(key);
+    if (batch && batch.byteSize + bodyByteSize > this.config.maxBytes) {
+      void this.flushBatch(key);
+      batch = undefined;
+    }
+    if (!batch) {
+      batch = {
+        url,
+        headers,
+        options,
+        bodies: [],
+        byteSize: 1,
+        resolvers: [],
+        timer: setTimeout(() => {
+          void this.flushBatch(key);
+        }, this.config.maxWait),
+      };
+      this.batches.set(key, batch);
+    }
+    const pending = batch;
+    pending.bodies.push(body);
+    pending.byteSize += bodyByteSize;
+    const result = new Promise<RequestResult>((resolve) =>
+      pending.resolvers.push(resolve)
+    );
+    if (
+      pending.bodies.length >= this.config.maxCount ||
+      pending.byteSize >= this.config.maxBytes
+    ) {
+      void this.flushBatch(key);
+    }
+    return result;
+  }
+
+  flush(): Promise<void> {
+    return Promise.all(
+      Array.from(this.batches.keys()).map((key) => this.flushBatch(key))
+    ).then(() => undefined);
+  }
+
+  private flushBatch(key: string): Promise<void> {
+    const batch = this.batches.get(key);
+    if (!batch) {
+      return Promise.resolve();
+    }
+    this.batches.delete(key);
+    clearTimeout(batch.timer);
+    debug(() => `flushing batch of ${batch.bodies.length} to ${batch.url}`);
+    return this.send(
+      batch.url,
+      frameBodies(this.config.framing, batch.bodies),
+      batch.headers && { ...batch.headers },
+      batch.options
+    ).then((result) => {
+      batch.resolvers.forEach((resolve) => resolve({ ...result }));
+    });
+  }
+}
+
+/**
+ * Group beacons sent to the same url with the same headers and options into one request.
+ * Plain object bodies are serialized to JSON, bodies other than strings are sent without batching.
+ * A batch is flushed when it reaches `maxCount` or `maxBytes`, `maxWait`
+ * milliseconds after its first beacon, or when the page is hidden.
+ *
+ * @public
+ */
+export function createBatchBeacon(init?: BatchBeaconInit): {
+  beacon: BeaconFunc;
+  database: RetryDB;
+  flush: () => Promise<void>;
+};
+/**
+ * @public
+ */
+export function createBatchBeacon<CustomRetryDBType extends IRetryDBBase>(
+  init?: BatchBeaconInit<CustomRetryDBType>
+): {
+  beacon: BeaconFunc;
+  database: CustomRetryDBType;
+  flush: () => Promise<void>;
+};
+/**
+ * @public
+ */
+export function createBatchBeacon<
+  CustomRetryDB extends IRetryDBBase = IRetryDBBase
+>(
+  init: BatchBeaconInit<CustomRetryDB> = {}
+): {
+  beacon: BeaconFunc;
+  database: RetryDB | CustomRetryDB;
+  flush: () => Promise<void>;
+} {
+  const { beacon: send, database } = createBeacon<CustomRetryDB>(init);
+  const batchConfig: Required<BatchInit> = Object.assign(
+    {},
+    defaultBatchConfig,
+    init.batch
+  );
+  const batcher = new Batcher(send, batchConfig);
+  if (batchConfig.flushOnPageHide) {
+    onPageHide(() => {
+      void batcher.flush();
+    });
+  }
+
+  const beacon: BeaconFunc = (url, body, headers, options) =>
+    batcher.add(url, body, headers, options);
+  return { beacon, database, flush: () => batcher.flush() };
+}
@@ -1,17 +1,39 @@
+import type { EncodedBody } from './body';
+import { encodeBody, getCompression } from './body';
 import type {
+  BeaconBody,
   BeaconFunc,
   BeaconInit,
+  BeaconOptions,
+  CompressionAlgorithm,
+  DropReason,
   IRetryDBBase,
   RequestNetworkError,
   RequestPersisted,
   RequestResponseError,
   RequestResult,
+  RequestTimeout,
   RequiredInMemoryRetryConfig,
   RequiredPersistenceRetryConfig,
+  RetryEntry,
 } from './interfaces';
-import { fetchFn, isGlobalFetchSupported } from './network';
+import type { FetchFn } from './network';
+import {
+  createFetchFn,
+  fetchFn,
+  isGlobalFetchSupported,
+  isXhrSupported,
+} from './network';
 import { RetryDB } from './queue';
-import { createHeaders, debug, sleep } from './utils';
+import type { StorageBackend } from './store';
+import {
+  createHeaders,
+  debug,
+  isOnline,
+  onPageHide,
+  pickRequestInit,
+  sleep,
+} from './utils';
 
 /**
  * 502 Bad Gateway
@@ -24,21 +46,51 @@ const defaultInMemoryRetryStatusCodes = [502, 504];
  */
 const defaultPersistRetryStatusCodes = [429, 503];
 
+const pageHideCallbacks = new Set<() => void>();
+let isListeningPageHide = false;
+
+/**
+ * Sleep before the next in-memory attempt,
+ * resolves to true if the page got hidden before the time is up
+ */
+function sleepUntilPageHide(ms: number): Promise<boolean> {
+  if (!isListeningPageHide) {
+    isListeningPageHide = true;
+    onPageHide(() => pageHideCallbacks.forEach((cb) => cb()));
+  }
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      pageHideCallbacks.delete(onHide);
+      resolve(false);
+    }, ms);
+    function onHide(): void {
+      clearTimeout(timer);
+      pageHideCallbacks.delete(onHide);
+      resolve(true);
+    }
+    pageHideCallbacks.add(onHide);
+  });
+}
+
 class Beacon<RetryDBType extends IRetryDBBase> {
   private timestamp: number;
   private isClearQueuePending = false;
   private onClearCallback: () => void;
+  private encodedBody?: Promise<EncodedBody>;
 
   constructor(
     private url: string,
-    private body: string,
+    private body: BeaconBody,
     private config: RequiredInMemoryRetryConfig,
     private persistenceConfig: {
       db: RetryDBType;
       disabled: boolean;
       statusCodes: number[];
     },
-    private compress: boolean = false
+    private compression?: CompressionAlgorithm,
+    private timeout?: number,
+    private options: BeaconOptions = {},
+    private sendRequest: FetchFn = fetchFn
   ) {
     this.timestamp = Date.now();
     this.onClearCallback = () => (this.isClearQueuePending = true);
@@ -49,7 +101,16 @@ class Beacon<RetryDBType extends IRetryDBBase> {
     const initialRetryCountLeft = this.retryLimit;
     return this.retry(
       (fetchHeaders: Record<string, string>) =>
-        fetchFn(this.url, this.body, fetchHeaders, this.compress),
+        this.encode().then(({ body, headers: bodyHeaders }) =>
+          this.sendRequest(
+            this.url,
+            body,
+            { ...bodyHeaders, ...fetchHeaders },
+            false,
+            this.timeout,
+            pickRequestInit(this.options)
+          )
+        ),
       initialRetryCountLeft,
       headers
     ).finally(() => {
@@ -58,6 +119,16 @@ class Beacon<RetryDBType extends IRetryDBBase> {
     });
   }
 
+  /**
+   * Serialize and compress the body once for all attempts
+   */
+  private encode(): Promise<EncodedBody> {
+    if (!this.encodedBody) {
+      this.encodedBody = encodeBody(this.body, this.compression || false);
+    }
+    return this.encodedBody;
+  }
+
   private get retryLimit(): number {
     return this.config.attemptLimit;
   }
@@ -92,32 +163,32 @@ class Beacon<RetryDBType extends IRetryDBBase> {
       } else {
         debug(() => 'retry rejected ' + JSON.stringify(fetchResult));
         if (this.shouldPersist(retryCountLeft, fetchResult)) {
-          this.persistenceConfig.db.pushToQueue({
-            url: this.url,
-            body: this.body,
-            headers,
-            statusCode: fetchResult.statusCode,
-            timestamp: this.timestamp,
-            attemptCount: this.getAttemptCount(retryCountLeft),
-          });
-          result = {
-            type: 'persisted',
-            drop: false,
-            statusCode: fetchResult.statusCode,
-          };
+          result = this.persist(retryCountLeft, headers, fetchResult);
         } else if (retryCountLeft > 0 && this.isRetryableError(fetchResult)) {
           this.config.onIntermediateResult?.(fetchResult, this.body);
-          const waitMs = this.config.calculateRetryDelay(
-            this.getAttemptCount(retryCountLeft),
-            retryCountLeft
+          // Wait at least as long as the server asked for
+          const waitMs = Math.max(
+            this.config.calculateRetryDelay(
+              this.getAttemptCount(retryCountLeft),
+              retryCountLeft
+            ),
+            (fetchResult.type === 'response' && fetchResult.retryAfter) || 0
           );
           debug(() => `in memory retry in ${waitMs}ms`);
-          return sleep(waitMs).then(() =>
-            this.retry(fn, retryCountLeft - 1, headers, fetchResult.statusCode)
+          return this.sleep(waitMs).then((isPageHidden) =>
+            isPageHidden
+              ? this.rescue(fn, retryCountLeft, headers, fetchResult)
+              : this.retry(
+                  fn,
+                  retryCountLeft - 1,
+                  headers,
+                  fetchResult.statusCode
+                )
           );
         } else {
           result = fetchResult;
           result.drop = true;
+          result.reason = this.getDropReason(retryCountLeft, fetchResult);
         }
       }
       this.config.onIntermediateResult?.(result, this.body);
@@ -125,11 +196,82 @@ class Beacon<RetryDBType extends IRetryDBBase> {
     });
   }
 
+  private persist(
+    retryCountLeft: number,
+    headers: Record<string, string>,
+    error: RequestNetworkError | RequestTimeout | RequestResponseError
+  ): RequestPersisted {
+    const entry: RetryEntry = {
+      url: this.url,
+      body: this.body,
+      headers,
+      statusCode: error.statusCode,
+      timestamp: this.timestamp,
+      attemptCount: this.getAttemptCount(retryCountLeft),
+      ...pickRequestInit(this.options),
+    };
+    if (this.options.priority) {
+      entry.priority = this.options.priority;
+    }
+    if (error.type === 'response' && error.retryAfter !== undefined) {
+      entry.replayAfter = Date.now() + error.retryAfter;
+    }
+    this.persistenceConfig.db.pushToQueue(entry);
+    return {
+      type: 'persisted',
+      drop: false,
+      statusCode: error.statusCode,
+    };
+  }
+
+  private sleep(ms: number): Promise<boolean> {
+    return this.config.rescueOnPageHide
+      ? sleepUntilPageHide(ms)
+      : sleep(ms).then(() => false);
+  }
+
+  /**
+   * The page is hidden while waiting for the next in-memory attempt, it may never wake up.
+   * Persist the payload if possible, otherwise make the final attempt right away.
+   */
+  private rescue(
+    fn: (fetchHeaders: Record<string, string>) => ReturnType<typeof fetchFn>,
+    retryCountLeft: number,
+    headers: Record<string, string>,
+    error: RequestNetworkError | RequestTimeout | RequestResponseError
+  ): Promise<RequestResult> {
+    debug(() => 'page hidden, rescue in memory retry');
+    if (!this.isClearQueuePending && !this.persistenceConfig.disabled) {
+      const result = this.persist(retryCountLeft, headers, error);
+      this.config.onIntermediateResult?.(result, this.body);
+      return Promise.resolve(result);
+    }
+    const attemptCount = this.getAttemptCount(retryCountLeft);
+    return fn(
+      createHeaders(
+        headers,
+        this.config.headerName,
+        attemptCount,
+        error.statusCode
+      )
+    ).then((result) => {
+      if (result.type !== 'unknown' && result.type !== 'success') {
+        result.drop = true;
+        result.reason = this.getDropReason(0, result);
+      } else {
+        result.drop = false;
+      }
+      this.config.onIntermediateResult?.(result, this.body);
+      return result;
+    });
+  }
+
   private isRetryableError(
-    error: RequestNetworkError | RequestResponseError
+    error: RequestNetworkError | RequestTimeout | RequestResponseError
   ): boolean {
     if (
       error.type === 'network' ||
+      error.type === 'timeout' ||
       this.config.statusCodes.includes(error.statusCode)
     ) {
       return true;
@@ -139,16 +281,20 @@ class Beacon<RetryDBType extends IRetryDBBase> {
 
   private shouldPersist(
     retryCountLeft: number,
-    error: RequestNetworkError | RequestResponseError
+    error: RequestNetworkError | RequestTimeout | RequestResponseError
   ): boolean {
     if (this.isClearQueuePending || this.persistenceConfig.disabled) {
       return false;
     }
+    return this.isPersistable(retryCountLeft, error);
+  }
+
+  private isPersistable(
+    retryCountLeft: number,
+    error: RequestNetworkError | RequestTimeout | RequestResponseError
+  ): boolean {
     // Short-circuit if apparently offline or all back-off retries fail
-    if (
-      !navigator.onLine ||
-      (retryCountLeft === 0 && error.type === 'network')
-    ) {
+    if (!isOnline() || (retryCountLeft === 0 && error.type !== 'response')) {
       return true;
     }
     const fromStatusCode =
@@ -159,6 +305,65 @@ class Beacon<RetryDBType extends IRetryDBBase> {
     }
     return false;
   }
+
+  /**
+   * Why a failed request that is neither retried nor persisted is dropped
+   */
+  private getDropReason(
+    retryCountLeft: number,
+    error: RequestNetworkError | RequestTimeout | RequestResponseError
+  ): DropReason {
+    if (this.isPersistable(retryCountLeft, error)) {
+      return this.persistenceConfig.disabled
+        ? 'persistence-disabled'
+        : 'queue-cleared';
+    }
+    return this.isRetryableError(error)
+      ? 'in-memory-retry-exhausted'
+      : 'non-retryable-status';
+  }
+}
+
+/**
+ * Fill the persistence retry config with the defaults
+ */
+export function createRetryDBConfig(
+  init: BeaconInit<unknown>
+): RequiredPersistenceRetryConfig {
+  const retryDBConfig: RequiredPersistenceRetryConfig = Object.assign(
+    {
+      idbName: 'beacon-transporter',
+      attemptLimit: 3,
+      statusCodes: defaultPersistRetryStatusCodes,
+      maxNumber: 1000,
+      batchEvictionNumber: 300,
+      throttleWait: 5 * 60 * 1000,
+    },
+    init.persistenceRetry
+  );
+  retryDBConfig.headerName =
+    retryDBConfig.headerName || init.inMemoryRetry?.headerName;
+  return retryDBConfig;
+}
+
+/**
+ * Create the database with the persistence retry config, backed by IndexedDB by default
+ */
+export function createRetryDB(
+  init: BeaconInit<unknown>,
+  storageBackend?: StorageBackend
+): RetryDB {
+  return new RetryDB(
+    createRetryDBConfig(init),
+    {
+      compress: init.compress,
+      compressThreshold: init.compressThreshold,
+      timeout: init.timeout,
+      transports: init.transports,
+      disablePersistenceRetry: init.disablePersistenceRetry,
+    },
+    storageBackend
+  );
 }
 
 /**
@@ -186,42 +391,31 @@ export function createBeacon<CustomRetryDB extends IRetryDBBase = IRetryDBBase>(
   beacon: BeaconFunc;
   database: RetryDB | CustomRetryDB;
 } {
-  const compress = Boolean(init.compress);
   const inMemoryRetryConfig: RequiredInMemoryRetryConfig = Object.assign(
     {
       attemptLimit: 0,
       statusCodes: defaultInMemoryRetryStatusCodes,
+      rescueOnPageHide: true,
       calculateRetryDelay: (_retryCountLeft: number, attemptCount: number) =>
         attemptCount * 2000,
     },
     init.inMemoryRetry
   );
+  const send = init.transports ? createFetchFn(init.transports) : fetchFn;
   let retryDB: CustomRetryDB | RetryDB;
   if (init.retryDB) {
     retryDB = init.retryDB;
   } else {
-    const retryDBConfig: RequiredPersistenceRetryConfig = Object.assign(
-      {
-        idbName: 'beacon-transporter',
-        attemptLimit: 3,
-        statusCodes: defaultPersistRetryStatusCodes,
-        maxNumber: 1000,
-        batchEvictionNumber: 300,
-        throttleWait: 5 * 60 * 1000,
-      },
-      init.persistenceRetry
-    );
-    retryDBConfig.headerName =
-      retryDBConfig.headerName || inMemoryRetryConfig.headerName;
-    retryDB = new RetryDB(retryDBConfig, {
-      compress: init.compress,
-      disablePersistenceRetry: init.disablePersistenceRetry,
-    });
+    retryDB = createRetryDB(init);
   }
 
-  const beacon: BeaconFunc = (url, body, headers) => {
-    if (!isGlobalFetchSupported()) {
-      return Promise.resolve({ type: 'unknown', drop: true });
+  const beacon: BeaconFunc = (url, body, headers, options) => {
+    if (!init.transports && !isGlobalFetchSupported() && !isXhrSupported()) {
+      return Promise.resolve({
+        type: 'unknown',
+        drop: true,
+        reason: 'fetch-unsupported',
+      });
     }
     return new Beacon(
       url,
@@ -229,11 +423,17 @@ export function createBeacon<CustomRetryDB extends IRetryDBBase = IRetryDBBase>(
       inMemoryRetryConfig,
       {
         db: retryDB,
-        disabled: Boolean(init.disablePersistenceRetry),
+        // Without any storage, e.g. on the server, nothing is persisted unless a retryDB is passed
+        disabled:
+          Boolean(init.disablePersistenceRetry) ||
+          (!init.retryDB && !(retryDB as RetryDB).activeStorage),
         statusCodes:
           init.persistenceRetry?.statusCodes || defaultPersistRetryStatusCodes,
       },
-      compress
+      getCompression(init.compress, init.compressThreshold, body),
+      init.timeout,
+      { ...options, ...pickRequestInit(init, options || {}) },
+      send
     ).send(headers);
   };
   return { beacon, database: retryDB };
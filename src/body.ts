@@ -0,0 +1,159 @@
+import { deflateSync, gzipSync, zlibSync } from 'fflate';
+
+import type {
+  BeaconBody,
+  BeaconInit,
+  CompressionAlgorithm,
+} from './interfaces';
+import { bodyByteLength, isJsonBody, isPageHidden } from './utils';
+
+type CompressionStreamConstructor = new (
+  format: CompressionAlgorithm
+) => TransformStream<Uint8Array, Uint8Array>;
+
+const syncCompressors: Record<
+  CompressionAlgorithm,
+  (data: Uint8Array) => Uint8Array
+> = {
+  gzip: gzipSync,
+  deflate: zlibSync,
+  'deflate-raw': deflateSync,
+};
+
+/**
+ * The body serialized and compressed, with the headers describing it
+ */
+export interface EncodedBody {
+  body: XMLHttpRequestBodyInit;
+  headers: Record<string, string>;
+}
+
+/**
+ * Resolve the algorithm to compress the body with, bodies smaller than
+ * `compressThreshold` bytes are not compressed
+ */
+export function getCompression(
+  compress: BeaconInit['compress'],
+  compressThreshold: number | undefined,
+  body: BeaconBody
+): CompressionAlgorithm | undefined {
+  if (!compress) {
+    return undefined;
+  }
+  if (compressThreshold && bodyByteLength(body) < compressThreshold) {
+    return undefined;
+  }
+  return compress === true ? 'gzip' : compress;
+}
+
+/**
+ * Serialize plain objects to JSON and set the content-type of text bodies,
+ * the browser sets the content-type of the other bodies
+ */
+export function serializeBody(
+  body: BeaconBody,
+  headers: Record<string, string>
+): XMLHttpRequestBodyInit {
+  if (isJsonBody(body)) {
+    if (!headers['content-type']) {
+      headers['content-type'] = 'application/json';
+    }
+    return JSON.stringify(body);
+  }
+  if (typeof body === 'string' && !headers['content-type']) {
+    headers['content-type'] = 'text/plain;charset=UTF-8';
+  }
+  return body;
+}
+
+/**
+ * Bytes of the bodies that can be compressed
+ */
+function toBytes(body: XMLHttpRequestBodyInit): Uint8Array | undefined {
+  if (typeof body === 'string') {
+    return typeof TextEncoder !== 'undefined'
+      ? new TextEncoder().encode(body)
+      : undefined;
+  }
+  if (body instanceof ArrayBuffer) {
+    return new Uint8Array(body);
+  }
+  if (ArrayBuffer.isView(body)) {
+    return new Uint8Array(body.buffer, body.byteOffset, body.byteLength);
+  }
+  return undefined;
+}
+
+/**
+ * Compress with `CompressionStream` off the main thread when available, otherwise with fflate.
+ * fflate is also used while the page is hidden, the page may be frozen before the stream finishes.
+ */
+function compressBytes(
+  data: Uint8Array,
+  algorithm: CompressionAlgorithm
+): Promise<Uint8Array> {
+  const CompressionStream =
+    typeof self !== 'undefined'
+      ? (
+          self as unknown as {
+            CompressionStream?: CompressionStreamConstructor;
+          }
+        ).CompressionStream
+      : undefined;
+  const compressSync = (): Promise<Uint8Array> =>
+    new Promise((resolve) => resolve(syncCompressors[algorithm](data)));
+  if (!CompressionStream || isPageHidden()) {
+    return compressSync();
+  }
+  let stream: ReadableStream<Uint8Array>;
+  try {
+    stream = new Blob([data])
+      .stream()
+      .pipeThrough(new CompressionStream(algorithm));
+  } catch (_error) {
+    // The algorithm is not supported by the browser
+    return compressSync();
+  }
+  return new Response(stream)
+    .arrayBuffer()
+    .then((buffer) => new Uint8Array(buffer));
+}
+
+/**
+ * Serialize and compress the body, setting the matching headers
+ */
+export function prepareBody(
+  body: BeaconBody,
+  headers: Record<string, string>,
+  compress: boolean | CompressionAlgorithm
+): Promise<XMLHttpRequestBodyInit> {
+  const serializedBody = serializeBody(body, headers);
+  const algorithm = compress === true ? 'gzip' : compress;
+  const bytes = algorithm ? toBytes(serializedBody) : undefined;
+  if (!algorithm || !bytes) {
+    return Promise.resolve(serializedBody);
+  }
+  return compressBytes(bytes, algorithm).then(
+    (compressedBody) => {
+      headers['content-encoding'] = algorithm;
+      return compressedBody;
+    },
+    () =>
+      // Send uncompressed if compression fails
+      serializedBody
+  );
+}
+
+/**
+ * Serialize and compress the body once to send it in every attempt
+ */
+export function encodeBody(
+  body: BeaconBody,
+  compress: boolean | CompressionAlgorithm
+): Promise<EncodedBody> {
+  const headers: Record<string, string> = {};
+  return prepareBody(body, headers, compress).then((encodedBody) => ({
+    body: encodedBody,
+    headers,
+  }));
+}
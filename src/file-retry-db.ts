@@ -0,0 +1,74 @@
+import { createRetryDB } from './beacon';
+import type { FileRetryDBInit, RetryFileSystem } from './interfaces';
+import type { ListStoreAdapter } from './list-store';
+import { createListStore, parseEntry, stringifyEntry } from './list-store';
+import type { RetryDB } from './queue';
+import { logError } from './utils';
+
+/**
+ * One JSON entry per line. Pushing the newest entry appends a line,
+ * other changes write the entries to a temporary file that replaces the file.
+ */
+function createFileAdapter(
+  path: string,
+  fileSystem: RetryFileSystem
+): ListStoreAdapter {
+  return {
+    load: () =>
+      fileSystem.readFile(path, 'utf8').then(
+        (content) =>
+          content
+            .split('\n')
+            .filter((line) => line.trim())
+            .flatMap((line) => {
+              try {
+                return [parseEntry(line)];
+              } catch (_error) {
+                // The process may have exited in the middle of appending
+                logError(() => `Skipping corrupted entry in ${path}`);
+                return [];
+              }
+            }),
+        (reason: { code?: string }) => {
+          if (reason && reason.code === 'ENOENT') {
+            return [];
+          }
+          throw reason;
+        }
+      ),
+    save: (entries) =>
+      Promise.all(entries.map(stringifyEntry)).then((lines) => {
+        const tempPath = `${path}.tmp`;
+        return fileSystem
+          .writeFile(tempPath, lines.map((line) => `${line}\n`).join(''))
+          .then(() => fileSystem.rename(tempPath, path));
+      }),
+    append: (entry) =>
+      stringifyEntry(entry).then((line) =>
+        fileSystem.appendFile(path, `${line}\n`)
+      ),
+  };
+}
+
+/**
+ * Create a database persisting entries to a local append-only file, for Node.js and other
+ * server-side runtimes without IndexedDB.
+ *
+ * @example
+ * ```js
+ * import { promises as fs } from 'fs';
+ *
+ * const retryDB = createFileRetryDB({ path: 'beacons.jsonl', fileSystem: fs });
+ * const { beacon } = createBeacon({ retryDB });
+ * ```
+ *
+ * @public
+ */
+export function createFileRetryDB(init: FileRetryDBInit): RetryDB {
+  return createRetryDB(init, {
+    name: 'file',
+    createStore: createListStore(() =>
+      createFileAdapter(init.path, init.fileSystem)
+    ),
+  });
+}
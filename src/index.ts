@@ -3,8 +3,13 @@
  * @packageDocumentation
  */
 
+export { createBackgroundSyncHandler } from './background-sync';
+export { createBatchBeacon } from './batch';
 export { createBeacon } from './beacon';
+export { createFileRetryDB } from './file-retry-db';
 export * from './interfaces';
+export { LocalStorageRetryDB } from './local-storage-retry-db';
+export { MemoryRetryDB } from './memory-retry-db';
 export * from './network';
 export { RetryDB } from './queue';
 export { gzipSync } from 'fflate';
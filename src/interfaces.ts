@@ -1,14 +1,38 @@
 /**
  * @public
  */
-export interface BeaconInit<CustomRetryDB = IRetryDBBase> {
-  compress?: boolean;
+export interface BeaconInit<CustomRetryDB = IRetryDBBase>
+  extends BeaconRequestInit {
+  /**
+   * Compress the body with the algorithm, `true` for `gzip`. Compressed bodies are not sent with
+   * `navigator.sendBeacon`, which can not set the `content-encoding` header
+   */
+  compress?: boolean | CompressionAlgorithm;
+  /**
+   * Min byte size of the body to compress
+   */
+  compressThreshold?: number;
+  /**
+   * Abort a request that has not finished after the given milliseconds
+   */
+  timeout?: number;
+  /**
+   * Transports to try in order until one sends the request, defaults to keepalive fetch then fetch,
+   * or sendBeacon then fetch when keepalive fetch is not supported, or XHR when fetch is not supported
+   */
+  transports?: Transport[];
   inMemoryRetry?: {
     attemptLimit?: number;
     statusCodes?: number[];
     headerName?: string;
     calculateRetryDelay?: (attempCount: number, countLeft: number) => number;
-    onIntermediateResult?: (result: RequestResult, rawPayload: string) => void;
+    rescueOnPageHide?: boolean;
+    /**
+     * Called with the result of every attempt. Declared as a method so that a callback taking
+     * a `string` payload, the only body accepted before `BeaconBody`, still type-checks
+     * with `strictFunctionTypes`
+     */
+    onIntermediateResult?(result: RequestResult, rawPayload: BeaconBody): void;
   };
   disablePersistenceRetry?: boolean;
   persistenceRetry?: {
@@ -20,17 +44,207 @@ export interface BeaconInit<CustomRetryDB = IRetryDBBase> {
     throttleWait?: number;
     headerName?: string;
     useIdle?: boolean;
+    /**
+     * Register a Background Sync tag after persisting an entry,
+     * see `createBackgroundSyncHandler` to replay from service worker
+     */
+    backgroundSyncTag?: string;
+    /**
+     * Replay when the browser goes back online, defaults to true
+     */
+    replayOnOnline?: boolean;
+    /**
+     * Replay when `navigator.connection` changes, defaults to false
+     */
+    replayOnConnectionChange?: boolean;
+    /**
+     * Max random delay in milliseconds before replaying on connectivity change,
+     * defaults to 5000
+     */
+    replayJitter?: number;
+    replay?: ReplayConfig;
+    /**
+     * Elect one tab to replay the store shared by all tabs of the same origin,
+     * other tabs forward their notifications to it. Defaults to false
+     */
+    coordinateTabs?: boolean;
+    /**
+     * Max age in milliseconds of a persisted entry since the beacon was created,
+     * expired entries are dropped instead of being replayed
+     */
+    maxAge?: number;
+    /**
+     * Replay the oldest (`fifo`, default) or the newest (`lifo`) entry first
+     * among entries of the same priority
+     */
+    replayOrder?: ReplayOrder;
+    /**
+     * Which entries to evict when exceeding `maxNumber` or the storage quota,
+     * defaults to `lowest-priority`
+     */
+    evictionPolicy?: EvictionPolicy;
+    /**
+     * Max total byte size of the persisted bodies, entries are evicted when exceeding it
+     */
+    maxBytes?: number;
+    /**
+     * Store the compressed body along with its encoding instead of compressing it on every replay,
+     * `onBeforeRetry` and `onResult` receive the compressed body of such entries
+     */
+    storeCompressed?: boolean;
+    /**
+     * Storage backends to try in order, defaults to `['indexeddb']`. When a backend fails,
+     * the readable entries are moved to the next one, persistence is disabled when none is left
+     */
+    storage?: RetryStorage[];
+    /**
+     * Called with the storage backend in use after a failure, undefined when none is left
+     */
+    onStorageChange?: (storage: RetryStorage | 'file' | undefined) => void;
+    /**
+     * Called when the health of the storage changes
+     */
+    onHealthChange?: (health: RetryDBHealth) => void;
+    /**
+     * Called with the entries evicted from the store
+     */
+    onEvict?: (entries: RetryEntry[]) => void;
     measureIDB?: {
       createStartMark: string;
       createSuccessMeasure: string;
       createFailMeasure: string;
     };
-    onBeforeRetry?: (rawPayload: string) => void;
-    onResult?: (result: RequestResult, rawPayload: string) => void;
+    /**
+     * Declared as a method like `onIntermediateResult`, a callback taking a `string` payload
+     * still type-checks
+     */
+    onBeforeRetry?(rawPayload: BeaconBody): void;
+    onResult?(result: RequestResult, rawPayload: BeaconBody): void;
   };
   retryDB?: CustomRetryDB;
 }
 
+/**
+ * Compressed with `CompressionStream` when available, and with fflate otherwise.
+ * The `content-encoding` header is set to the algorithm. `deflate-raw` is not a registered
+ * HTTP content coding, servers and proxies do not decode it unless configured to.
+ *
+ * @public
+ */
+export type CompressionAlgorithm = 'gzip' | 'deflate' | 'deflate-raw';
+
+/**
+ * When persisted entries are replayed:
+ * `onNotify` (default) after a later beacon succeeds, throttled by `throttleWait`;
+ * `onStartup` also once after page load, with a random delay up to `startupDelay`;
+ * `interval` also every `interval` milliseconds while the page is visible, for the lifetime of the page;
+ * `manual` only when `RetryDB.replayQueue` is called.
+ *
+ * @public
+ */
+export type ReplayConfig =
+  | { mode: 'onNotify' }
+  | { mode: 'onStartup'; startupDelay?: number }
+  | { mode: 'interval'; interval?: number }
+  | { mode: 'manual' };
+
+/**
+ * @public
+ */
+export type ReplayOrder = 'fifo' | 'lifo';
+
+/**
+ * `localstorage` keeps the entries under the `idbName` key,
+ * `memory` loses them when the page is closed
+ *
+ * @public
+ */
+export type RetryStorage = 'indexeddb' | 'localstorage' | 'memory';
+
+/**
+ * `degraded` the storage failed and is reopened with backoff, entries wait for it;
+ * `disabled` persistence is disabled, entries are dropped
+ *
+ * @public
+ */
+export type RetryDBHealth = 'healthy' | 'degraded' | 'disabled';
+
+/**
+ * `oldest` and `newest` evict by creation time, `lowest-priority` evicts the lowest priority
+ * entries first and the oldest first within a priority, `largest` evicts the largest bodies first
+ *
+ * @public
+ */
+export type EvictionPolicy =
+  | 'oldest'
+  | 'newest'
+  | 'lowest-priority'
+  | 'largest';
+
+/**
+ * Persisted entries with a higher priority are replayed first and evicted last,
+ * defaults to `normal`
+ *
+ * @public
+ */
+export type BeaconPriority = 'high' | 'normal' | 'low';
+
+/**
+ * The body of a beacon, plain objects are serialized to JSON and sent as `application/json`.
+ * Streams are not accepted as they could not be retried or persisted.
+ *
+ * @public
+ */
+export type BeaconBody = XMLHttpRequestBodyInit | Record<string, unknown>;
+
+/**
+ * HTTP options of the request, defaults to `POST` with `include` credentials in `cors` mode.
+ * `navigator.sendBeacon` is only used for the defaults.
+ *
+ * @public
+ */
+export interface BeaconRequestInit {
+  method?: string;
+  credentials?: RequestCredentials;
+  mode?: RequestMode;
+  /**
+   * Send the headers other than content-type as query parameters with `navigator.sendBeacon`,
+   * otherwise fetch is used instead of `navigator.sendBeacon` when there are such headers
+   */
+  headersInQuery?: boolean;
+}
+
+/**
+ * Options of a single beacon, request options override the ones of `BeaconInit`
+ *
+ * @public
+ */
+export interface BeaconOptions extends BeaconRequestInit {
+  priority?: BeaconPriority;
+}
+
+/**
+ * Bodies passed to a batched beacon are expected to be serialized JSON when
+ * using `json-array` or `ndjson` framing.
+ *
+ * @public
+ */
+export interface BatchInit {
+  maxCount?: number;
+  maxBytes?: number;
+  maxWait?: number;
+  flushOnPageHide?: boolean;
+  framing?: 'json-array' | 'ndjson' | ((bodies: string[]) => string);
+}
+
+/**
+ * @public
+ */
+export interface BatchBeaconInit<CustomRetryDB = IRetryDBBase>
+  extends BeaconInit<CustomRetryDB> {
+  batch?: BatchInit;
+}
+
 /**
  * @internal
  */
@@ -61,13 +275,26 @@ export type RequiredPersistenceRetryConfig = Required<
 /**
  * @public
  */
-export interface RetryEntry {
+export interface RetryEntry extends BeaconRequestInit {
   url: string;
-  body: string;
+  body: BeaconBody;
   headers?: Record<string, string>;
   statusCode?: number;
   timestamp: number;
   attemptCount: number;
+  /**
+   * Epoch time in milliseconds before which the entry should not be replayed
+   */
+  replayAfter?: number;
+  priority?: BeaconPriority;
+  /**
+   * Byte size of the body
+   */
+  size?: number;
+  /**
+   * Algorithm the body is compressed with when stored compressed
+   */
+  contentEncoding?: CompressionAlgorithm;
 }
 
 /**
@@ -89,6 +316,68 @@ export interface IRetryDB extends IRetryDBBase {
   peekBackQueue(count: number): Promise<RetryEntry[]>;
 }
 
+/**
+ * The methods of Node.js `fs.promises` used to persist entries to a file
+ *
+ * @public
+ */
+export interface RetryFileSystem {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, data: string): Promise<void>;
+  appendFile(path: string, data: string): Promise<void>;
+  rename(oldPath: string, newPath: string): Promise<void>;
+}
+
+/**
+ * @public
+ */
+export interface FileRetryDBInit extends Omit<BeaconInit<unknown>, 'retryDB'> {
+  /**
+   * Path of the file the entries are appended to
+   */
+  path: string;
+  /**
+   * `fs.promises` of Node.js, or a file system with the same methods
+   */
+  fileSystem: RetryFileSystem;
+}
+
+/**
+ * The `sync` event dispatched to service worker
+ *
+ * @public
+ */
+export interface BackgroundSyncEvent {
+  readonly tag: string;
+  readonly lastChance?: boolean;
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+/**
+ * Why a request was dropped:
+ * `non-retryable-status` the response status is not retryable;
+ * `in-memory-retry-exhausted` all in-memory attempts failed;
+ * `attempt-limit-exceeded` replaying from the store exceeded `persistenceRetry.attemptLimit`;
+ * `persistence-disabled` the request should have been persisted but persistence is disabled or failed;
+ * `fetch-unsupported` neither fetch nor XMLHttpRequest is available;
+ * `expired` the persisted entry is older than `persistenceRetry.maxAge`;
+ * `queue-cleared` the store was cleared while the request was in flight;
+ * `evicted` the persisted entry was evicted to make room for new entries;
+ * `unstorable` the storage rejected the entry, e.g. a body that can not be cloned into IndexedDB.
+ *
+ * @public
+ */
+export type DropReason =
+  | 'non-retryable-status'
+  | 'in-memory-retry-exhausted'
+  | 'attempt-limit-exceeded'
+  | 'persistence-disabled'
+  | 'fetch-unsupported'
+  | 'expired'
+  | 'queue-cleared'
+  | 'evicted'
+  | 'unstorable';
+
 /**
  * @public
  */
@@ -97,6 +386,18 @@ export interface RequestNetworkError {
   drop: boolean;
   statusCode?: undefined;
   rawError: string;
+  reason?: DropReason;
+}
+
+/**
+ * @public
+ */
+export interface RequestTimeout {
+  type: 'timeout';
+  drop: boolean;
+  statusCode?: undefined;
+  rawError: string;
+  reason?: DropReason;
 }
 
 /**
@@ -107,6 +408,12 @@ export interface RequestResponseError {
   drop: boolean;
   statusCode: number;
   rawError: string;
+  /**
+   * Delay in milliseconds requested by the `Retry-After` response header,
+   * cross-origin responses need to expose the header via `Access-Control-Expose-Headers`
+   */
+  retryAfter?: number;
+  reason?: DropReason;
 }
 
 /**
@@ -128,24 +435,81 @@ export interface RequestPersisted {
 }
 
 /**
-  * @public
-  */
+ * @public
+ */
 export interface RequestResponseUnknown {
   type: 'unknown';
   drop: boolean;
   statusCode?: undefined;
+  reason?: DropReason;
 }
 
 /**
+ * A persisted entry dropped without sending it
+ *
  * @public
  */
-export type RequestResult = RequestSuccess | RequestPersisted | RequestNetworkError | RequestResponseError | RequestResponseUnknown;
+export interface RequestDropped {
+  type: 'dropped';
+  drop: true;
+  statusCode?: undefined;
+  reason: DropReason;
+}
+
+/**
+ * @public
+ */
+export type RequestResult =
+  | RequestSuccess
+  | RequestPersisted
+  | RequestDropped
+  | RequestNetworkError
+  | RequestTimeout
+  | RequestResponseError
+  | RequestResponseUnknown;
+
+/**
+ * The result of a request sent by a transport
+ *
+ * @public
+ */
+export type TransportResult = Exclude<
+  RequestResult,
+  RequestPersisted | RequestDropped
+>;
+
+/**
+ * A request with its body serialized and compressed, and the matching headers set
+ *
+ * @public
+ */
+export interface TransportRequest extends BeaconRequestInit {
+  url: string;
+  body: XMLHttpRequestBodyInit;
+  headers: Record<string, string>;
+  timeout?: number;
+}
+
+/**
+ * Sends requests over a network API or a native bridge
+ *
+ * @public
+ */
+export interface Transport {
+  name: string;
+  /**
+   * Resolves undefined when the transport can not send the request,
+   * the next transport in the chain is tried then
+   */
+  send(request: TransportRequest): Promise<TransportResult | undefined>;
+}
 
 /**
  * @public
  */
 export type BeaconFunc = (
   url: string,
-  body: string,
-  headers?: Record<string, string>
+  body: BeaconBody,
+  headers?: Record<string, string>,
+  options?: BeaconOptions
 ) => Promise<RequestResult>;
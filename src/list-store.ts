@@ -0,0 +1,296 @@
+import type { RequiredPersistenceRetryConfig, RetryEntry } from './interfaces';
+import type {
+  CreateEntryStore,
+  EvictionOptions,
+  StoredRetryEntry,
+} from './store';
+import {
+  findNextIndex,
+  fromStoredEntry,
+  getRank,
+  getSize,
+  pickEvicted,
+  toStoredEntry,
+} from './store';
+import { debug } from './utils';
+
+/**
+ * Loads and saves the entries of a list store
+ */
+export interface ListStoreAdapter {
+  load(): Promise<RetryEntry[]>;
+  /**
+   * Replace the saved entries
+   */
+  save(entries: RetryEntry[]): Promise<void>;
+  /**
+   * Save an entry newer than the saved ones, `save` is used when not implemented
+   */
+  append?(entry: RetryEntry): Promise<void>;
+}
+
+/**
+ * Entry with a body that can be stringified to JSON,
+ * binary bodies are stored as base64
+ */
+interface JsonRetryEntry extends Omit<StoredRetryEntry, 'bodyType'> {
+  bodyType?: StoredRetryEntry['bodyType'] | 'binary';
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Stringify the entry to JSON, Blob bodies are read as binary
+ * and keep their type as the content-type header
+ */
+export function stringifyEntry(entry: RetryEntry): Promise<string> {
+  const { body } = entry;
+  if (typeof Blob !== 'undefined' && body instanceof Blob) {
+    const headers = body.type
+      ? { 'content-type': body.type, ...entry.headers }
+      : entry.headers;
+    return body
+      .arrayBuffer()
+      .then((buffer) => stringifyEntry({ ...entry, body: buffer, headers }));
+  }
+  let jsonEntry: JsonRetryEntry;
+  if (body instanceof ArrayBuffer) {
+    jsonEntry = {
+      ...entry,
+      body: toBase64(new Uint8Array(body)),
+      bodyType: 'binary',
+    };
+  } else if (ArrayBuffer.isView(body)) {
+    jsonEntry = {
+      ...entry,
+      body: toBase64(
+        new Uint8Array(body.buffer, body.byteOffset, body.byteLength)
+      ),
+      bodyType: 'binary',
+    };
+  } else {
+    jsonEntry = toStoredEntry(entry);
+  }
+  return Promise.resolve(JSON.stringify(jsonEntry));
+}
+
+/**
+ * Parse the entry stringified with `stringifyEntry`
+ */
+export function parseEntry(json: string): RetryEntry {
+  const { bodyType, body, ...entry } = JSON.parse(json) as JsonRetryEntry;
+  if (bodyType === 'binary') {
+    return { ...entry, body: fromBase64(body as string) };
+  }
+  return fromStoredEntry({ ...entry, body, bodyType });
+}
+
+/**
+ * Order the entries by timestamp like IndexedDB does with its timestamp index,
+ * entries with the same timestamp keep the order they were pushed in
+ */
+export function sortEntries(entries: RetryEntry[]): RetryEntry[] {
+  return [...entries].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Accessing localStorage throws on storage-restricted pages
+ */
+export function isLocalStorageSupported(): boolean {
+  try {
+    return typeof globalThis !== 'undefined' && !!globalThis.localStorage;
+  } catch (_error) {
+    return false;
+  }
+}
+
+/**
+ * The entries are saved under one key, one JSON entry per line
+ */
+export function createLocalStorageAdapter(key: string): ListStoreAdapter {
+  return {
+    load: () =>
+      new Promise((resolve) => {
+        const saved = localStorage.getItem(key);
+        resolve(saved ? saved.split('\n').map(parseEntry) : []);
+      }),
+    save: (entries) =>
+      Promise.all(entries.map(stringifyEntry)).then((lines) => {
+        if (lines.length === 0) {
+          localStorage.removeItem(key);
+        } else {
+          localStorage.setItem(key, lines.join('\n'));
+        }
+      }),
+  };
+}
+
+/**
+ * The entries are kept in memory and lost with the page
+ */
+export function createMemoryAdapter(): ListStoreAdapter {
+  let saved: RetryEntry[] = [];
+  return {
+    load: () => Promise.resolve(saved),
+    save: (entries) => {
+      saved = entries;
+      return Promise.resolve();
+    },
+  };
+}
+
+/**
+ * Create a store keeping the entries in a list that is saved on every change,
+ * with the same eviction and replay order as the IndexedDB store.
+ * Operations run one after another in the order they are called, each one loads the list again
+ * as other tabs or processes may save to the same key in the meantime
+ */
+export function createListStore(
+  createAdapter: (config: RequiredPersistenceRetryConfig) => ListStoreAdapter
+): CreateEntryStore {
+  return (config, callbacks) => {
+    const adapter = createAdapter(config);
+    let entries: RetryEntry[] = [];
+    function load(): Promise<void> {
+      return adapter.load().then((loadedEntries) => {
+        entries = sortEntries(loadedEntries);
+      });
+    }
+    const loaded = load().then(
+      () => callbacks.onSuccess(),
+      (reason: unknown) => {
+        callbacks.onError(reason);
+        throw reason;
+      }
+    );
+    // Failing to load is reported with onError, operations reject on their own
+    loaded.catch(() => undefined);
+    let lastOperation: Promise<unknown> = loaded;
+    function run<T>(operation: () => Promise<T>): Promise<T> {
+      const result = lastOperation
+        .then(() => loaded)
+        .then(load)
+        .then(operation);
+      lastOperation = result.catch(() => undefined);
+      return result;
+    }
+    function replaceEntries(nextEntries: RetryEntry[]): Promise<void> {
+      return adapter.save(nextEntries).then(() => {
+        entries = nextEntries;
+      });
+    }
+    function evictFrom(
+      candidates: RetryEntry[],
+      { pushed, ...options }: EvictionOptions<RetryEntry>
+    ): RetryEntry[] {
+      const evictionCandidates = candidates.map((entry) => ({
+        timestamp: entry.timestamp,
+        rank: getRank(entry),
+        size: getSize(entry),
+        entry,
+      }));
+      return pickEvicted(evictionCandidates, config, {
+        ...options,
+        pushed: evictionCandidates.find(({ entry }) => entry === pushed),
+      }).map(({ entry }) => entry);
+    }
+    function putEntry(
+      entry: RetryEntry,
+      storageUsage?: number
+    ): Promise<RetryEntry[]> {
+      const nextEntries = sortEntries([...entries, entry]);
+      const evicted = evictFrom(nextEntries, { storageUsage, pushed: entry });
+      const isNewest = nextEntries[nextEntries.length - 1] === entry;
+      if (adapter.append && isNewest && evicted.length === 0) {
+        return adapter.append(entry).then(() => {
+          entries = nextEntries;
+          return evicted;
+        });
+      }
+      return replaceEntries(
+        nextEntries.filter((candidate) => !evicted.includes(candidate))
+      ).then(() => evicted);
+    }
+
+    return {
+      push: (entry, storageUsage) =>
+        run(() => {
+          const sizedEntry: RetryEntry = { ...entry, size: getSize(entry) };
+          return putEntry(sizedEntry, storageUsage).catch(
+            (reason: DOMException) => {
+              if (!reason || reason.name !== 'QuotaExceededError') {
+                throw reason;
+              }
+              debug(() => 'Storage quota exceeded, evict and push again');
+              const evicted = evictFrom(entries, { force: true });
+              return replaceEntries(
+                entries.filter((candidate) => !evicted.includes(candidate))
+              ).then(() =>
+                putEntry(sizedEntry).then(
+                  (evictedAgain) => [...evicted, ...evictedAgain],
+                  (secondReason: DOMException) => {
+                    if (
+                      secondReason &&
+                      secondReason.name === 'QuotaExceededError'
+                    ) {
+                      // The entry itself did not make it into the store
+                      return [...evicted, sizedEntry];
+                    }
+                    throw secondReason;
+                  }
+                )
+              );
+            }
+          );
+        }),
+      shift: (order) =>
+        run(() => {
+          const index = findNextIndex(entries, order);
+          if (index === -1) {
+            return Promise.resolve(undefined);
+          }
+          const next = entries[index];
+          return replaceEntries(entries.filter((_, i) => i !== index)).then(
+            () => next
+          );
+        }),
+      clear: () => run(() => replaceEntries([])),
+      peek: (count) => run(() => Promise.resolve(entries.slice(0, count))),
+      peekBack: (count) =>
+        run(() =>
+          Promise.resolve(
+            entries.slice(Math.max(entries.length - count, 0)).reverse()
+          )
+        ),
+      pruneExpired: (maxAge) =>
+        run(() => {
+          const threshold = Date.now() - maxAge;
+          const expired = entries.filter(
+            (entry) => entry.timestamp < threshold
+          );
+          if (expired.length === 0) {
+            return Promise.resolve(expired);
+          }
+          return replaceEntries(
+            entries.filter((entry) => entry.timestamp >= threshold)
+          ).then(() => expired);
+        }),
+      close: () => {
+        // noop
+      },
+    };
+  };
+}
@@ -0,0 +1,28 @@
+import { createRetryDBConfig } from './beacon';
+import type { BeaconInit } from './interfaces';
+import { isLocalStorageSupported } from './list-store';
+import { RetryDB } from './queue';
+
+/**
+ * Database persisting entries to localStorage under the `persistenceRetry.idbName` key,
+ * for pages where IndexedDB is not available. All the entries are written again on every
+ * change, a small `maxNumber` or `maxBytes` keeps that cheap.
+ *
+ * @public
+ */
+export class LocalStorageRetryDB extends RetryDB {
+  static hasSupport = isLocalStorageSupported();
+
+  constructor(init: BeaconInit<unknown> = {}) {
+    super(
+      createRetryDBConfig({
+        ...init,
+        persistenceRetry: {
+          ...init.persistenceRetry,
+          storage: ['localstorage'],
+        },
+      }),
+      init
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { createRetryDBConfig } from './beacon';
+import type { BeaconInit } from './interfaces';
+import { RetryDB } from './queue';
+
+/**
+ * Database keeping entries in memory, they are lost when the page is closed
+ * and are not shared with other tabs.
+ *
+ * @public
+ */
+export class MemoryRetryDB extends RetryDB {
+  static hasSupport = true;
+
+  constructor(init: BeaconInit<unknown> = {}) {
+    super(
+      createRetryDBConfig({
+        ...init,
+        persistenceRetry: { ...init.persistenceRetry, storage: ['memory'] },
+      }),
+      init
+    );
+  }
+}
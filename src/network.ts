@@ -1,19 +1,25 @@
-import { gzipSync } from 'fflate';
-
+import { prepareBody, serializeBody } from './body';
 import type {
+  BeaconBody,
+  BeaconRequestInit,
+  CompressionAlgorithm,
   RequestNetworkError,
-  RequestPersisted,
   RequestResponseError,
-  RequestResponseUnknown,
-  RequestResult,
-  RequestSuccess,
+  RequestTimeout,
+  Transport,
+  TransportRequest,
+  TransportResult,
 } from './interfaces';
+import { debug, parseRetryAfter } from './utils';
 
 /**
  * @public
  */
 export function isGlobalFetchSupported(): boolean {
-  return typeof window !== 'undefined' && typeof window.fetch === 'function';
+  // `globalThis` is the global scope of window, workers and server-side runtimes
+  return (
+    typeof globalThis !== 'undefined' && typeof globalThis.fetch === 'function'
+  );
 }
 
 /**
@@ -27,107 +33,108 @@ export function isKeepaliveFetchSupported(): boolean {
   }
 }
 
+/**
+ * @public
+ */
+export function isXhrSupported(): boolean {
+  return typeof XMLHttpRequest !== 'undefined';
+}
+
 /**
  * @public
  */
 export function xhr(
   url: string,
-  body: string,
+  body: BeaconBody,
   options: {
     headers?: Record<string, string>;
-  } = {}
+  } & Pick<BeaconRequestInit, 'method' | 'credentials'> = {}
 ): void {
-  if (
-    typeof window !== 'undefined' &&
-    typeof window.XMLHttpRequest !== 'undefined'
-  ) {
+  if (isXhrSupported()) {
     const req = new XMLHttpRequest();
-    req.open('POST', url, true);
-    req.withCredentials = true;
-    if (options.headers) {
-      for (const key of Object.keys(options.headers)) {
-        req.setRequestHeader(key, options.headers[key]);
-      }
+    req.open(options.method || 'POST', url, true);
+    // Same-origin requests always carry credentials with XHR
+    req.withCredentials = (options.credentials || 'include') === 'include';
+    const headers = { ...options.headers };
+    const finalBody = serializeBody(body, headers);
+    for (const key of Object.keys(headers)) {
+      req.setRequestHeader(key, headers[key]);
     }
-    req.send(body);
+    req.send(finalBody);
   }
 }
 
-function createRequestInit({
-  body,
-  keepalive,
-  headers,
-  compress,
-}: {
-  body: string;
-  keepalive: boolean;
-  headers: Record<string, string>;
-  compress: boolean;
-}): RequestInit {
-  if (!headers['content-type']) {
-    headers['content-type'] = 'text/plain;charset=UTF-8';
-  }
+function createRequestInit(
+  request: TransportRequest,
+  keepalive: boolean,
+  signal?: AbortSignal
+): RequestInit {
+  return {
+    body: request.body,
+    keepalive,
+    credentials: request.credentials || 'include',
+    headers: request.headers,
+    method: request.method || 'POST',
+    mode: request.mode || 'cors',
+    signal,
+  };
+}
 
-  let finalBody: string | Uint8Array = body;
-  if (compress && typeof TextEncoder !== 'undefined') {
-    try {
-      finalBody = gzipSync(new TextEncoder().encode(body));
-      headers['content-encoding'] = 'gzip';
-    } catch (error) {
-      // Do nothing if gzip fails
-    }
-  }
+interface TimeoutControl {
+  signal?: AbortSignal;
+  clear: () => void;
+}
 
+function createTimeoutControl(timeout?: number): TimeoutControl {
+  if (!timeout || typeof AbortController === 'undefined') {
+    return {
+      clear: () => {
+        // noop
+      },
+    };
+  }
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
   return {
-    body: finalBody,
-    keepalive,
-    credentials: 'include',
-    headers,
-    method: 'POST',
-    mode: 'cors',
+    signal: controller.signal,
+    clear: () => clearTimeout(timer),
   };
 }
 
-function keepaliveFetch(
-  url: string,
-  body: string,
-  headers: Record<string, string>,
-  compress: boolean
-): Promise<RequestSuccess | RequestNetworkError | RequestResponseError> {
-  return new Promise((resolve) => {
-    fetch(url, createRequestInit({ body, keepalive: true, headers, compress }))
-      .catch(() => {
-        // keepalive true fetch can throw error if body exceeds 64kb
-        return fetch(
-          url,
-          createRequestInit({ body, keepalive: false, headers, compress })
-        );
-      })
-      .then(
-        (response) => {
-          if (response.ok) {
-            resolve({
-              type: 'success',
-              drop: false,
-              statusCode: response.status,
-            });
-          } else {
-            resolve({
-              type: 'response',
-              drop: true,
-              statusCode: response.status,
-              rawError: response.statusText,
-            });
-          }
-        },
-        (error: unknown) =>
-          resolve({
-            type: 'network',
-            drop: true,
-            rawError: serializeError(error),
-          })
-      );
-  });
+function createResponseResult(
+  status: number,
+  statusText: string,
+  headers: Pick<Headers, 'get'>
+): TransportResult {
+  if (status >= 200 && status < 300) {
+    return {
+      type: 'success',
+      drop: false,
+      statusCode: status,
+    };
+  }
+  const error: RequestResponseError = {
+    type: 'response',
+    drop: true,
+    statusCode: status,
+    rawError: statusText,
+  };
+  const retryAfter = parseRetryAfter(headers);
+  if (retryAfter !== undefined) {
+    error.retryAfter = retryAfter;
+  }
+  return error;
+}
+
+function createFetchError(
+  error: unknown,
+  signal?: AbortSignal
+): RequestNetworkError | RequestTimeout {
+  return {
+    type: signal?.aborted ? 'timeout' : 'network',
+    drop: true,
+    rawError: serializeError(error),
+  };
 }
 
 function serializeError(error: unknown): string {
@@ -138,65 +145,224 @@ function serializeError(error: unknown): string {
   }
 }
 
+function sendFetch(
+  request: TransportRequest,
+  keepalive: boolean
+): Promise<TransportResult> {
+  const { signal, clear } = createTimeoutControl(request.timeout);
+  return fetch(request.url, createRequestInit(request, keepalive, signal))
+    .then(
+      (response) =>
+        createResponseResult(
+          response.status,
+          response.statusText,
+          response.headers
+        ),
+      (error: unknown) => createFetchError(error, signal)
+    )
+    .finally(clear);
+}
+
+/**
+ * Send with `fetch` and `keepalive: true` so that the request outlives the page.
+ * Defers to the next transport when the request is rejected for reasons other than
+ * timeout, e.g. the body exceeds the 64kb keepalive limit.
+ *
+ * @public
+ */
+export const keepaliveFetchTransport: Transport = {
+  name: 'keepalive-fetch',
+  send: (request) => {
+    if (!isKeepaliveFetchSupported()) {
+      return Promise.resolve(undefined);
+    }
+    return sendFetch(request, true).then((result) =>
+      result.type === 'network' ? undefined : result
+    );
+  },
+};
+
+/**
+ * Send with `fetch`
+ *
+ * @public
+ */
+export const fetchTransport: Transport = {
+  name: 'fetch',
+  send: (request) =>
+    isGlobalFetchSupported()
+      ? sendFetch(request, false)
+      : Promise.resolve(undefined),
+};
+
 const supportSendBeacon =
   typeof navigator !== 'undefined' && 'sendBeacon' in navigator;
 
-function fallbackFetch(
-  url: string,
-  body: string,
-  headers: Record<string, string>,
-  compress: boolean
-): Promise<
-  | RequestSuccess
-  | RequestResponseError
-  | RequestNetworkError
-  | RequestResponseUnknown
-> {
-  return new Promise((resolve) => {
-    if (supportSendBeacon) {
-      let result = false;
-      try {
-        result = navigator.sendBeacon(url, body);
-      } catch (_e) {
-        // silent any error due to any browser issue
+/**
+ * `navigator.sendBeacon` always sends a credentialed POST request in cors mode
+ */
+function isSendBeaconCompatible({
+  method = 'POST',
+  credentials = 'include',
+  mode = 'cors',
+}: BeaconRequestInit): boolean {
+  return (
+    method.toUpperCase() === 'POST' &&
+    credentials === 'include' &&
+    mode === 'cors'
+  );
+}
+
+/**
+ * Create the arguments of `navigator.sendBeacon` carrying the same content-type
+ * and headers as fetch would. The content-type is sent as the type of a Blob, other headers
+ * can only be sent as query parameters with `headersInQuery`, returns undefined otherwise.
+ * Compressed bodies are never sent: a server does not decode a body whose `content-encoding`
+ * arrives as a query parameter.
+ */
+function createSendBeaconArgs({
+  url,
+  body,
+  headers,
+  headersInQuery,
+}: TransportRequest): [string, XMLHttpRequestBodyInit] | undefined {
+  if (headers['content-encoding']) {
+    return undefined;
+  }
+  const beaconHeaders = { ...headers };
+  const contentType = beaconHeaders['content-type'];
+  delete beaconHeaders['content-type'];
+  let beaconUrl = url;
+  const headerNames = Object.keys(beaconHeaders);
+  if (headerNames.length > 0) {
+    if (!headersInQuery) {
+      return undefined;
+    }
+    try {
+      const parsedUrl = new URL(
+        url,
+        typeof location !== 'undefined' ? location.href : undefined
+      );
+      headerNames.forEach((name) =>
+        parsedUrl.searchParams.append(name, beaconHeaders[name])
+      );
+      beaconUrl = parsedUrl.toString();
+    } catch (_error) {
+      return undefined;
+    }
+  }
+  // The browser sets the content-type of form bodies
+  if (
+    !contentType ||
+    body instanceof FormData ||
+    body instanceof URLSearchParams
+  ) {
+    return [beaconUrl, body];
+  }
+  return [beaconUrl, new Blob([body], { type: contentType })];
+}
+
+/**
+ * Queue the request with `navigator.sendBeacon`, the result is `unknown` as the response is not available.
+ * Defers to the next transport when sendBeacon can not represent the request or refuses to queue it,
+ * which is always the case for bodies compressed with `compress` as sendBeacon can not set `content-encoding`.
+ *
+ * @public
+ */
+export const sendBeaconTransport: Transport = {
+  name: 'send-beacon',
+  send: (request) => {
+    const sendBeaconArgs =
+      supportSendBeacon && isSendBeaconCompatible(request)
+        ? createSendBeaconArgs(request)
+        : undefined;
+    if (!sendBeaconArgs) {
+      return Promise.resolve(undefined);
+    }
+    let result = false;
+    try {
+      result = navigator.sendBeacon(...sendBeaconArgs);
+    } catch (_e) {
+      // silent any error due to any browser issue
+    }
+    // if the user agent is not able to successfully queue the data for transfer,
+    // send the payload with the next transport instead
+    return Promise.resolve(
+      result ? { type: 'unknown', drop: false } : undefined
+    );
+  },
+};
+
+/**
+ * Send with `XMLHttpRequest`. `include` credentials are sent with `withCredentials`,
+ * same-origin requests always carry credentials.
+ *
+ * @public
+ */
+export const xhrTransport: Transport = {
+  name: 'xhr',
+  send: (request) => {
+    if (!isXhrSupported()) {
+      return Promise.resolve(undefined);
+    }
+    return new Promise((resolve) => {
+      const req = new XMLHttpRequest();
+      req.open(request.method || 'POST', request.url, true);
+      req.withCredentials = (request.credentials || 'include') === 'include';
+      if (request.timeout) {
+        req.timeout = request.timeout;
       }
-      // if the user agent is not able to successfully queue the data for transfer,
-      // send the payload with fetch api instead
-      if (result) {
-        resolve({
-          type: 'unknown',
-          drop: false,
-        });
-        return;
+      for (const key of Object.keys(request.headers)) {
+        req.setRequestHeader(key, request.headers[key]);
       }
+      req.onload = () =>
+        resolve(
+          createResponseResult(req.status, req.statusText, {
+            get: (name) => req.getResponseHeader(name),
+          })
+        );
+      req.onerror = () =>
+        resolve({ type: 'network', drop: true, rawError: 'XHR_ERROR' });
+      req.ontimeout = () =>
+        resolve({ type: 'timeout', drop: true, rawError: 'XHR_TIMEOUT' });
+      req.onabort = () =>
+        resolve({ type: 'network', drop: true, rawError: 'XHR_ABORT' });
+      req.send(request.body);
+    });
+  },
+};
+
+/**
+ * Transports used when `transports` is not configured, embedded WebViews may lack fetch
+ */
+function getDefaultTransports(): Transport[] {
+  if (isKeepaliveFetchSupported()) {
+    return [keepaliveFetchTransport, fetchTransport];
+  }
+  if (isGlobalFetchSupported()) {
+    return [sendBeaconTransport, fetchTransport];
+  }
+  return [xhrTransport];
+}
+
+function sendWithTransports(
+  transports: Transport[],
+  request: TransportRequest
+): Promise<TransportResult> {
+  const [transport, ...nextTransports] = transports;
+  if (!transport) {
+    return Promise.resolve({
+      type: 'network',
+      drop: true,
+      rawError: 'NO_TRANSPORT',
+    });
+  }
+  return transport.send(request).then((result) => {
+    if (result) {
+      return result;
     }
-    fetch(
-      url,
-      createRequestInit({ body, keepalive: false, headers, compress })
-    ).then(
-      (response) => {
-        if (response.ok) {
-          resolve({
-            type: 'success',
-            drop: false,
-            statusCode: 200,
-          });
-        } else {
-          resolve({
-            type: 'response',
-            drop: true,
-            statusCode: response.status,
-            rawError: response.statusText,
-          });
-        }
-      },
-      (error: unknown) =>
-        resolve({
-          type: 'network',
-          drop: true,
-          rawError: serializeError(error),
-        })
-    );
+    debug(() => `${transport.name} could not send, try the next transport`);
+    return sendWithTransports(nextTransports, request);
   });
 }
 
@@ -205,14 +371,32 @@ function fallbackFetch(
  */
 export type FetchFn = (
   url: string,
-  body: string,
+  body: BeaconBody,
   headers: Record<string, string>,
-  compress: boolean
-) => Promise<Exclude<RequestResult, RequestPersisted>>;
+  compress: boolean | CompressionAlgorithm,
+  timeout?: number,
+  requestInit?: BeaconRequestInit
+) => Promise<TransportResult>;
+
+/**
+ * Create a `FetchFn` that tries the transports in order until one sends the request
+ *
+ * @public
+ */
+export function createFetchFn(transports?: Transport[]): FetchFn {
+  return (url, body, headers, compress, timeout, requestInit = {}) =>
+    prepareBody(body, headers, compress).then((finalBody) =>
+      sendWithTransports(transports || getDefaultTransports(), {
+        ...requestInit,
+        url,
+        body: finalBody,
+        headers,
+        timeout,
+      })
+    );
+}
 
 /**
  * @public
  */
-export const fetchFn: FetchFn = isKeepaliveFetchSupported()
-  ? keepaliveFetch
-  : fallbackFetch;
+export const fetchFn: FetchFn = createFetchFn();
@@ -1,31 +1,115 @@
-import type { WithStore } from 'idb-queue';
-import {
-  clear,
-  createStore,
-  peek,
-  peekBack,
-  pushIfNotClearing,
-  shift,
-} from 'idb-queue';
-
+import { encodeBody, getCompression } from './body';
 import type {
   BeaconInit,
+  DropReason,
   IRetryDB,
+  ReplayConfig,
   RequiredPersistenceRetryConfig,
+  RetryDBHealth,
   RetryEntry,
+  RetryStorage,
+  Transport,
 } from './interfaces';
-import { fetchFn } from './network';
+import {
+  createListStore,
+  createLocalStorageAdapter,
+  createMemoryAdapter,
+  isLocalStorageSupported,
+} from './list-store';
+import type { FetchFn } from './network';
+import { createFetchFn } from './network';
+import type { EntryStore, StorageBackend } from './store';
+import {
+  createIDBStore,
+  isIDBEntryError,
+  isRecoverableIDBError,
+} from './store';
+import { TabCoordinator } from './tab-coordinator';
 import {
   createHeaders,
   debug,
+  isOnline,
+  isPageHidden,
   logError,
+  pickRequestInit,
+  registerBackgroundSync,
   scheduleTask,
   throttle,
   ThrottleControl,
 } from './utils';
 
+const defaultReplayJitter = 5000;
+const defaultStartupDelay = 10 * 1000;
+const defaultReplayInterval = 60 * 1000;
+const storageUsageThreshold = 0.9;
+const storageEstimateMaxAge = 30 * 1000;
+const reopenAttemptLimit = 3;
+const reopenDelay = 1000;
+
+function isIndexedDBSupported(): boolean {
+  return typeof globalThis !== 'undefined' && !!globalThis.indexedDB;
+}
+
+const storageBackends: Record<
+  RetryStorage,
+  Omit<StorageBackend, 'name'> & { isSupported: () => boolean }
+> = {
+  indexeddb: {
+    isSupported: isIndexedDBSupported,
+    createStore: createIDBStore,
+    isRecoverable: isRecoverableIDBError,
+    isEntryError: isIDBEntryError,
+  },
+  localstorage: {
+    isSupported: isLocalStorageSupported,
+    createStore: createListStore((config) =>
+      createLocalStorageAdapter(config.idbName)
+    ),
+  },
+  memory: {
+    isSupported: () => true,
+    createStore: createListStore(createMemoryAdapter),
+  },
+};
+
+let storageEstimate:
+  | { time: number; nearlyFullUsage: Promise<number | undefined> }
+  | undefined;
+
+/**
+ * Resolves with the storage usage of the origin when it is about to run out of its quota,
+ * to evict ahead of time. The estimate is reused for a while rather than asked on every push
+ */
+function getNearlyFullUsage(): Promise<number | undefined> {
+  const storage =
+    typeof navigator !== 'undefined' ? navigator.storage : undefined;
+  if (!storage || typeof storage.estimate !== 'function') {
+    return Promise.resolve(undefined);
+  }
+  const now = Date.now();
+  if (!storageEstimate || now - storageEstimate.time > storageEstimateMaxAge) {
+    storageEstimate = {
+      time: now,
+      nearlyFullUsage: storage
+        .estimate()
+        .then(({ usage, quota }) =>
+          usage !== undefined &&
+          !!quota &&
+          usage / quota > storageUsageThreshold
+            ? usage
+            : undefined
+        )
+        .catch(() => undefined),
+    };
+  }
+  return storageEstimate.nearlyFullUsage;
+}
+
 interface IQueue {
+  readonly storage: StorageBackend['name'] | undefined;
+  readonly health: RetryDBHealth;
   onNotify(): void;
+  replay(): Promise<void>;
   push(entry: RetryEntry): void;
   clear(): Promise<void>;
   peek(count: number): Promise<RetryEntry[]>;
@@ -34,44 +118,62 @@ interface IQueue {
 
 class Queue implements IQueue {
   private throttleControl: ThrottleControl;
-  private withStore: WithStore;
+  private store: EntryStore;
+  private backendIndex = 0;
+  private reopenAttempts = 0;
+  private reopening?: Promise<boolean>;
+  private healthState: RetryDBHealth = 'healthy';
   private disablePersistence = false;
+  private replayResumeTime = 0;
+  private resumeTimer?: ReturnType<typeof setTimeout>;
+  private connectivityTimer?: ReturnType<typeof setTimeout>;
+  private sendRequest: FetchFn;
 
   constructor(
     private config: RequiredPersistenceRetryConfig,
-    private compress = false
+    private compress: BeaconInit['compress'],
+    private compressThreshold: number | undefined,
+    private timeout: number | undefined,
+    private coordinator: TabCoordinator | undefined,
+    transports: Transport[] | undefined,
+    private backends: StorageBackend[]
   ) {
-    const measureMarks = config.measureIDB;
-    if (measureMarks) {
-      performance.mark(measureMarks.createStartMark);
+    this.sendRequest = createFetchFn(transports);
+    this.store = this.openStore(0);
+    this.throttleControl = throttle(() => {
+      void this.replay();
+    }, config.throttleWait);
+    coordinator?.on('notify', () => this.onNotify());
+    if (this.replayMode !== 'manual') {
+      this.listenConnectivity();
     }
-    this.withStore = createStore(config.idbName, 'beacons', 'timestamp', {
-      onSuccess: () => {
-        if (measureMarks) {
-          performance.measure(
-            measureMarks.createSuccessMeasure,
-            measureMarks.createStartMark
-          );
-        }
-      },
-      onError: () => {
-        if (measureMarks) {
-          performance.measure(
-            measureMarks.createFailMeasure,
-            measureMarks.createStartMark
-          );
-        }
-        this.disablePersistence = true;
-      },
-    });
-    this.throttleControl = throttle(
-      this.replayEntries.bind(this),
-      config.throttleWait
-    );
+    this.scheduleReplay();
+  }
+
+  private get replayMode(): ReplayConfig['mode'] {
+    return this.config.replay?.mode || 'onNotify';
+  }
+
+  private get isLeader(): boolean {
+    return !this.coordinator || this.coordinator.isLeader;
+  }
+
+  public get storage(): StorageBackend['name'] | undefined {
+    return this.disablePersistence
+      ? undefined
+      : this.backends[this.backendIndex].name;
+  }
+
+  public get health(): RetryDBHealth {
+    return this.healthState;
   }
 
   public onNotify(): void {
-    if (this.disablePersistence) {
+    if (this.disablePersistence || this.replayMode === 'manual') {
+      return;
+    }
+    if (!this.isLeader) {
+      this.coordinator?.notifyLeader();
       return;
     }
     this.throttleControl.throttledFn();
@@ -79,29 +181,39 @@ class Queue implements IQueue {
 
   public push(entry: RetryEntry): void {
     if (this.disablePersistence) {
+      this.reportDropped(entry, 'persistence-disabled');
       return;
     }
+    this.pauseReplay(entry.replayAfter);
     const runPushTask = (): void => {
       debug(() => 'Persisting to DB ' + entry.url);
-      pushIfNotClearing(entry, this.config, this.withStore)
+      this.compressEntry(entry)
+        .then((compressedEntry) => this.pushToStore(compressedEntry))
         .then(() => {
           this.throttleControl.resetThrottle();
           debug(() => 'push completed');
+          if (this.config.backgroundSyncTag) {
+            registerBackgroundSync(this.config.backgroundSyncTag);
+          }
         })
         .catch(() => {
-          this.disablePersistence = true;
+          this.disable();
           logError(() => 'push failed');
+          this.reportDropped(entry, 'persistence-disabled');
         });
     };
-    this.config.useIdle ? scheduleTask(runPushTask) : runPushTask();
+    // Idle callbacks may never run once the page is hidden
+    this.config.useIdle && !isPageHidden()
+      ? scheduleTask(runPushTask)
+      : runPushTask();
   }
 
   public clear(): Promise<void> {
     if (this.disablePersistence) {
       return Promise.resolve();
     }
-    return clear(this.withStore).catch(() => {
-      this.disablePersistence = true;
+    return this.withStore((store) => store.clear()).catch(() => {
+      this.disable();
       logError(() => 'clear failed');
     });
   }
@@ -110,8 +222,8 @@ class Queue implements IQueue {
     if (this.disablePersistence) {
       return Promise.resolve([]);
     }
-    return peek<RetryEntry>(count, this.withStore).catch(() => {
-      this.disablePersistence = true;
+    return this.withStore((store) => store.peek(count)).catch(() => {
+      this.disable();
       logError(() => 'peek failed');
       return [];
     });
@@ -121,24 +233,59 @@ class Queue implements IQueue {
     if (this.disablePersistence) {
       return Promise.resolve([]);
     }
-    return peekBack<RetryEntry>(count, this.withStore).catch(() => {
-      this.disablePersistence = true;
+    return this.withStore((store) => store.peekBack(count)).catch(() => {
+      this.disable();
       logError(() => 'peekBack failed');
       return [];
     });
   }
 
-  private replayEntries(): void {
+  /**
+   * Replay entries one by one until the store is empty or replaying fails,
+   * resolves when replaying stops
+   */
+  public replay(): Promise<void> {
     if (this.disablePersistence) {
-      return;
+      return Promise.resolve();
+    }
+    const pausedMs = this.replayResumeTime - Date.now();
+    if (pausedMs > 0) {
+      debug(() => `Replay paused for ${pausedMs}ms`);
+      if (!this.resumeTimer) {
+        this.resumeTimer = setTimeout(() => {
+          this.resumeTimer = undefined;
+          void this.replay();
+        }, pausedMs);
+      }
+      return Promise.resolve();
     }
-    const runReplayEntriesTask = (): void => {
+    const runReplayEntriesTask = (): Promise<void> => {
       debug(() => 'Replaying entry: shift from store');
-      shift<RetryEntry>(1, this.withStore)
-        .then((entries) => {
-          if (entries.length > 0) {
-            const { url, body, headers, timestamp, statusCode, attemptCount } =
-              entries[0];
+      return this.withStore((store) =>
+        store.shift(this.config.replayOrder || 'fifo')
+      )
+        .then((shifted) => {
+          if (shifted) {
+            const {
+              url,
+              body,
+              headers,
+              timestamp,
+              statusCode,
+              attemptCount,
+              replayAfter,
+              priority,
+              contentEncoding,
+            } = shifted;
+            if (this.isExpired(shifted)) {
+              this.reportDropped(shifted, 'expired');
+              return this.replay();
+            }
+            if (replayAfter && replayAfter > Date.now()) {
+              this.pauseReplay(replayAfter);
+              // Replaying again while paused arms the timer resuming it
+              return this.pushToStore(shifted).then(() => this.replay());
+            }
             debug(
               () =>
                 `header: ${String(
@@ -146,23 +293,32 @@ class Queue implements IQueue {
                 )}; attemptCount: ${attemptCount}`
             );
             this.config.onBeforeRetry?.(body);
-            return fetchFn(
+            const replayHeaders = createHeaders(
+              { ...headers },
+              this.config.headerName,
+              attemptCount,
+              statusCode
+            );
+            // Stored compressed bodies are sent as is
+            if (contentEncoding) {
+              replayHeaders['content-encoding'] = contentEncoding;
+            }
+            return this.sendRequest(
               url,
               body,
-              createHeaders(
-                headers,
-                this.config.headerName,
-                attemptCount,
-                statusCode
-              ),
-              this.compress
+              replayHeaders,
+              !contentEncoding &&
+                (getCompression(this.compress, this.compressThreshold, body) ||
+                  false),
+              this.timeout,
+              pickRequestInit(shifted)
             ).then((fetchResult) => {
               if (
                 fetchResult.type === 'unknown' ||
                 fetchResult.type === 'success'
               ) {
                 this.config.onResult?.(fetchResult, body);
-                this.replayEntries();
+                return this.replay();
               } else {
                 if (attemptCount + 1 > this.config.attemptLimit) {
                   debug(
@@ -179,11 +335,13 @@ class Queue implements IQueue {
                       )
                   );
                   fetchResult.drop = true;
+                  fetchResult.reason = 'attempt-limit-exceeded';
                   this.config.onResult?.(fetchResult, body);
                   return;
                 }
                 if (
                   fetchResult.type === 'network' ||
+                  fetchResult.type === 'timeout' ||
                   this.config.statusCodes.includes(fetchResult.statusCode)
                 ) {
                   fetchResult.drop = false;
@@ -201,19 +359,28 @@ class Queue implements IQueue {
                         2
                       )
                   );
-                  return pushIfNotClearing(
-                    {
-                      url,
-                      body,
-                      timestamp,
-                      statusCode,
-                      attemptCount: attemptCount + 1,
-                    },
-                    this.config,
-                    this.withStore
-                  );
+                  const entry: RetryEntry = {
+                    url,
+                    body,
+                    headers,
+                    timestamp,
+                    statusCode,
+                    attemptCount: attemptCount + 1,
+                    priority,
+                    contentEncoding,
+                    ...pickRequestInit(shifted),
+                  };
+                  if (
+                    fetchResult.type === 'response' &&
+                    fetchResult.retryAfter !== undefined
+                  ) {
+                    entry.replayAfter = Date.now() + fetchResult.retryAfter;
+                    this.pauseReplay(entry.replayAfter);
+                  }
+                  return this.pushToStore(entry);
                 } else {
                   fetchResult.drop = true;
+                  fetchResult.reason = 'non-retryable-status';
                   this.config.onResult?.(fetchResult, body);
                 }
               }
@@ -221,22 +388,370 @@ class Queue implements IQueue {
           }
         })
         .catch((reason: DOMException) => {
-          this.disablePersistence = true;
+          this.disable();
           if (reason && reason.message) {
             logError(() => `Replay entry failed: ${reason.message}`);
           }
         });
     };
-    this.config.useIdle
-      ? scheduleTask(runReplayEntriesTask)
-      : runReplayEntriesTask();
+    if (!this.config.useIdle) {
+      return runReplayEntriesTask();
+    }
+    return new Promise((resolve) =>
+      scheduleTask(() => resolve(runReplayEntriesTask()))
+    );
+  }
+
+  private scheduleReplay(): void {
+    const replayConfig = this.config.replay;
+    if (replayConfig?.mode === 'onStartup') {
+      const replayAfterDelay = (): void => {
+        const delay =
+          Math.random() * (replayConfig.startupDelay ?? defaultStartupDelay);
+        debug(() => `Replay on startup in ${delay}ms`);
+        setTimeout(() => {
+          if (this.isLeader) {
+            void this.replay();
+          }
+        }, delay);
+      };
+      if (
+        typeof document === 'undefined' ||
+        document.readyState === 'complete'
+      ) {
+        replayAfterDelay();
+      } else {
+        self.addEventListener('load', replayAfterDelay, { once: true });
+      }
+    } else if (replayConfig?.mode === 'interval') {
+      const interval = replayConfig.interval ?? defaultReplayInterval;
+      let timer: ReturnType<typeof setInterval> | undefined;
+      const start = (): void => {
+        if (!timer) {
+          timer = setInterval(() => {
+            if (this.isLeader) {
+              void this.replay();
+            }
+          }, interval);
+        }
+      };
+      const stop = (): void => {
+        clearInterval(timer);
+        timer = undefined;
+      };
+      if (!isPageHidden()) {
+        start();
+      }
+      if (typeof document !== 'undefined') {
+        // Pause the timer while the page is hidden, it runs for the lifetime of the page
+        document.addEventListener('visibilitychange', () =>
+          isPageHidden() ? stop() : start()
+        );
+      }
+    }
+  }
+
+  /**
+   * Replay as soon as connectivity comes back, with a random delay
+   * so that clients going online together do not replay all at once
+   */
+  private listenConnectivity(): void {
+    if (typeof self === 'undefined') {
+      return;
+    }
+    const replayAfterJitter = (resetThrottle: boolean): void => {
+      if (!isOnline()) {
+        return;
+      }
+      const delay =
+        Math.random() * (this.config.replayJitter ?? defaultReplayJitter);
+      debug(() => `Connectivity changed, replay in ${delay}ms`);
+      clearTimeout(this.connectivityTimer);
+      this.connectivityTimer = setTimeout(() => {
+        // Nothing could be replayed while offline
+        if (resetThrottle) {
+          this.throttleControl.resetThrottle();
+        }
+        this.onNotify();
+      }, delay);
+    };
+    if (this.config.replayOnOnline !== false) {
+      self.addEventListener('online', () => replayAfterJitter(true));
+    }
+    const connection = (navigator as Navigator & { connection?: EventTarget })
+      .connection;
+    if (this.config.replayOnConnectionChange && connection) {
+      connection.addEventListener('change', () => replayAfterJitter(false));
+    }
+  }
+
+  private isExpired(entry: RetryEntry): boolean {
+    const { maxAge } = this.config;
+    return maxAge !== undefined && Date.now() - entry.timestamp > maxAge;
+  }
+
+  private reportDropped(entry: RetryEntry, reason: DropReason): void {
+    debug(() => `Dropping ${reason} entry: ${entry.url}`);
+    this.config.onResult?.({ type: 'dropped', drop: true, reason }, entry.body);
+  }
+
+  /**
+   * Compress the body before storing it with `storeCompressed`, so that it is
+   * not compressed again on every replay
+   */
+  private compressEntry(entry: RetryEntry): Promise<RetryEntry> {
+    const compression = getCompression(
+      this.compress,
+      this.compressThreshold,
+      entry.body
+    );
+    if (!this.config.storeCompressed || !compression || entry.contentEncoding) {
+      return Promise.resolve(entry);
+    }
+    return encodeBody(entry.body, compression).then(({ body, headers }) => {
+      const { 'content-encoding': contentEncoding, ...bodyHeaders } = headers;
+      if (!contentEncoding) {
+        // The body could not be compressed
+        return entry;
+      }
+      return {
+        ...entry,
+        body,
+        headers: { ...bodyHeaders, ...entry.headers },
+        contentEncoding: compression,
+        size: undefined,
+      };
+    });
+  }
+
+  private pushToStore(entry: RetryEntry): Promise<void> {
+    return getNearlyFullUsage()
+      .then((storageUsage) =>
+        this.withStore((store) => store.push(entry, storageUsage))
+      )
+      .then((evicted) => {
+        if (evicted.length === 0) {
+          return;
+        }
+        debug(() => `Evicted ${evicted.length} entries`);
+        this.config.onEvict?.(evicted);
+        evicted.forEach((evictedEntry) =>
+          this.reportDropped(evictedEntry, 'evicted')
+        );
+      })
+      .catch((reason: unknown) => {
+        if (!this.isEntryError(reason)) {
+          throw reason;
+        }
+        logError(() => 'The entry can not be stored');
+        this.reportDropped(entry, 'unstorable');
+      });
+  }
+
+  /**
+   * Open the store of the backend, `measureIDB` measures opening the first one
+   * but not reopening it
+   */
+  private openStore(index: number): EntryStore {
+    const measureMarks =
+      index === 0 && this.reopenAttempts === 0
+        ? this.config.measureIDB
+        : undefined;
+    if (measureMarks) {
+      performance.mark(measureMarks.createStartMark);
+    }
+    const store = this.backends[index].createStore(this.config, {
+      onSuccess: () => {
+        if (measureMarks) {
+          performance.measure(
+            measureMarks.createSuccessMeasure,
+            measureMarks.createStartMark
+          );
+        }
+        void this.pruneExpired();
+      },
+      onError: (reason) => {
+        if (measureMarks) {
+          performance.measure(
+            measureMarks.createFailMeasure,
+            measureMarks.createStartMark
+          );
+        }
+        void this.recover(store, reason);
+      },
+    });
+    return store;
+  }
+
+  /**
+   * Run the operation on the active store, waiting while it is reopened,
+   * and again once the store is recovered when the operation fails
+   */
+  private withStore<T>(
+    operation: (store: EntryStore) => Promise<T>
+  ): Promise<T> {
+    if (this.reopening) {
+      return this.reopening.then(() => this.withStore(operation));
+    }
+    const store = this.store;
+    return operation(store).then(
+      (result) => {
+        if (store === this.store) {
+          this.reopenAttempts = 0;
+          this.setHealth('healthy');
+        }
+        return result;
+      },
+      (reason: unknown) => {
+        if (this.isEntryError(reason)) {
+          // The store is fine, the caller drops the entry
+          throw reason;
+        }
+        return this.recover(store, reason).then((hasStore) => {
+          if (!hasStore) {
+            throw reason;
+          }
+          return this.withStore(operation);
+        });
+      }
+    );
+  }
+
+  private isEntryError(reason: unknown): boolean {
+    const { isEntryError } = this.backends[this.backendIndex];
+    return !!isEntryError && isEntryError(reason);
+  }
+
+  /**
+   * Reopen the failed store with exponential backoff when the error is recoverable,
+   * otherwise or once reopening failed too often move to the next backend.
+   * Resolves false when persistence is disabled
+   */
+  private recover(failedStore: EntryStore, reason?: unknown): Promise<boolean> {
+    if (failedStore !== this.store || this.disablePersistence) {
+      // Another operation already recovered the store
+      return Promise.resolve(!this.disablePersistence);
+    }
+    if (this.reopening) {
+      return this.reopening;
+    }
+    const { name, isRecoverable } = this.backends[this.backendIndex];
+    if (
+      !isRecoverable ||
+      !isRecoverable(reason) ||
+      this.reopenAttempts >= reopenAttemptLimit
+    ) {
+      return this.fallback();
+    }
+    const delay = reopenDelay * 2 ** this.reopenAttempts;
+    this.reopenAttempts++;
+    logError(() => `${name} storage failed, reopen in ${delay}ms`);
+    this.setHealth('degraded');
+    this.reopening = new Promise<void>((resolve) =>
+      setTimeout(resolve, delay)
+    ).then(() => {
+      this.reopening = undefined;
+      failedStore.close();
+      this.store = this.openStore(this.backendIndex);
+      return true;
+    });
+    return this.reopening;
+  }
+
+  /**
+   * Move to the next storage backend with the entries that can still be read from the failed one.
+   * Resolves false when no backend is left and persistence is disabled
+   */
+  private fallback(): Promise<boolean> {
+    const failedStore = this.store;
+    const failedName = this.backends[this.backendIndex].name;
+    if (this.backendIndex + 1 >= this.backends.length) {
+      logError(() => `${failedName} storage failed, disable persistence`);
+      failedStore.close();
+      this.disable();
+      this.config.onStorageChange?.(undefined);
+      return Promise.resolve(false);
+    }
+    this.backendIndex++;
+    this.reopenAttempts = 0;
+    this.store = this.openStore(this.backendIndex);
+    const nextName = this.backends[this.backendIndex].name;
+    logError(() => `${failedName} storage failed, fall back to ${nextName}`);
+    this.config.onStorageChange?.(nextName);
+    return failedStore
+      .peek(this.config.maxNumber)
+      .catch((): RetryEntry[] => [])
+      .then((entries) => {
+        debug(() => `Moving ${entries.length} entries to ${nextName}`);
+        return entries.reduce(
+          (moved, entry) => moved.then(() => this.pushToStore(entry)),
+          Promise.resolve()
+        );
+      })
+      .then(() => failedStore.clear())
+      .catch(() => {
+        logError(() => `Moving entries from ${failedName} storage failed`);
+      })
+      .then(() => {
+        failedStore.close();
+        return !this.disablePersistence;
+      });
+  }
+
+  private disable(): void {
+    this.disablePersistence = true;
+    this.setHealth('disabled');
+  }
+
+  /**
+   * Persistence is never enabled again once disabled
+   */
+  private setHealth(health: RetryDBHealth): void {
+    if (health === this.healthState || this.healthState === 'disabled') {
+      return;
+    }
+    debug(() => `Storage health: ${health}`);
+    this.healthState = health;
+    this.config.onHealthChange?.(health);
+  }
+
+  /**
+   * Delete all expired entries at once
+   */
+  private pruneExpired(): Promise<void> {
+    const { maxAge } = this.config;
+    if (maxAge === undefined) {
+      return Promise.resolve();
+    }
+    return this.store
+      .pruneExpired(maxAge)
+      .then((expired) =>
+        expired.forEach((entry) => this.reportDropped(entry, 'expired'))
+      )
+      .catch(() => {
+        logError(() => 'prune expired entries failed');
+      });
+  }
+
+  /**
+   * Hold off replaying until the time the server asked for with `Retry-After`
+   */
+  private pauseReplay(until?: number): void {
+    if (until && until > this.replayResumeTime) {
+      this.replayResumeTime = until;
+    }
   }
 }
 
 class NoopQueue implements IQueue {
+  readonly storage = undefined;
+  readonly health = 'disabled';
   onNotify(): void {
     // noop
   }
+  replay(): Promise<void> {
+    return Promise.resolve();
+  }
   push(): void {
     // noop
   }
@@ -255,20 +770,68 @@ class NoopQueue implements IQueue {
  * @public
  */
 export class RetryDB implements IRetryDB {
-  static hasSupport =
-    typeof globalThis !== 'undefined' && !!globalThis.indexedDB;
+  static hasSupport = isIndexedDBSupported();
 
   private queue: IQueue;
   private beaconListeners = new Set<() => void>();
+  private coordinator?: TabCoordinator;
 
   constructor(
     config: RequiredPersistenceRetryConfig,
-    extraConfig: Pick<BeaconInit, 'compress' | 'disablePersistenceRetry'>
+    extraConfig: Pick<
+      BeaconInit,
+      | 'compress'
+      | 'compressThreshold'
+      | 'timeout'
+      | 'disablePersistenceRetry'
+      | 'transports'
+    >,
+    storageBackend?: StorageBackend
   ) {
-    this.queue =
-      RetryDB.hasSupport && !extraConfig.disablePersistenceRetry
-        ? new Queue(config, extraConfig.compress)
-        : new NoopQueue();
+    const backends = storageBackend
+      ? [storageBackend]
+      : (config.storage || ['indexeddb'])
+          .filter((name) => storageBackends[name].isSupported())
+          .map((name) => ({
+            name,
+            createStore: storageBackends[name].createStore,
+            isRecoverable: storageBackends[name].isRecoverable,
+            isEntryError: storageBackends[name].isEntryError,
+          }));
+    const hasQueue =
+      backends.length > 0 && !extraConfig.disablePersistenceRetry;
+    if (hasQueue && config.coordinateTabs) {
+      this.coordinator = new TabCoordinator(`${config.idbName}:replay`);
+      // Beacons in this tab should not persist once another tab cleared the store
+      this.coordinator.on('clear', () =>
+        this.beaconListeners.forEach((cb) => cb())
+      );
+    }
+    this.queue = hasQueue
+      ? new Queue(
+          config,
+          extraConfig.compress,
+          extraConfig.compressThreshold,
+          extraConfig.timeout,
+          this.coordinator,
+          extraConfig.transports,
+          backends
+        )
+      : new NoopQueue();
+  }
+
+  /**
+   * The storage backend in use, undefined when persistence is disabled
+   */
+  get activeStorage(): RetryStorage | 'file' | undefined {
+    return this.queue.storage;
+  }
+
+  /**
+   * `degraded` while the storage is reopened after an error
+   */
+  get health(): RetryDBHealth {
+    return this.queue.health;
   }
 
   pushToQueue(entry: RetryEntry): void {
@@ -279,8 +842,16 @@ export class RetryDB implements IRetryDB {
     this.queue.onNotify();
   }
 
+  /**
+   * Replay persisted entries right away without throttling
+   */
+  replayQueue(): Promise<void> {
+    return this.queue.replay();
+  }
+
   clearQueue(): Promise<void> {
     this.beaconListeners.forEach((cb) => cb());
+    this.coordinator?.broadcastClear();
     return this.queue.clear();
   }
 
@@ -292,6 +863,14 @@ export class RetryDB implements IRetryDB {
     return this.queue.peekBack(count);
   }
 
+  /**
+   * Stop coordinating with the other tabs and hand the replay leadership over to one of them,
+   * for a database created with `coordinateTabs` that is no longer used
+   */
+  closeTabCoordination(): void {
+    this.coordinator?.close();
+  }
+
   onClear(cb: () => void): void {
     this.beaconListeners.add(cb);
   }
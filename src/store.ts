@@ -0,0 +1,607 @@
+import type { RetentionConfig, WithStore } from 'idb-queue';
+
+import type {
+  BeaconBody,
+  BeaconPriority,
+  EvictionPolicy,
+  ReplayOrder,
+  RequiredPersistenceRetryConfig,
+  RetryEntry,
+  RetryStorage,
+} from './interfaces';
+import { bodyByteLength, debug } from './utils';
+
+export interface EvictionConfig extends RetentionConfig {
+  maxBytes?: number;
+  evictionPolicy?: EvictionPolicy;
+}
+
+/**
+ * Where the queue keeps the persisted entries, ordered by timestamp
+ */
+export interface EntryStore {
+  /**
+   * Resolves with the evicted entries.
+   * `storageUsage` is the storage usage of the origin when it is nearly full
+   */
+  push(entry: RetryEntry, storageUsage?: number): Promise<RetryEntry[]>;
+  shift(order: ReplayOrder): Promise<RetryEntry | undefined>;
+  clear(): Promise<void>;
+  peek(count: number): Promise<RetryEntry[]>;
+  peekBack(count: number): Promise<RetryEntry[]>;
+  /**
+   * Delete the entries older than `maxAge`, resolves with the deleted entries
+   */
+  pruneExpired(maxAge: number): Promise<RetryEntry[]>;
+  /**
+   * Release the connection, the store is not used afterwards
+   */
+  close(): void;
+}
+
+export interface EntryStoreCallbacks {
+  onSuccess: () => void;
+  onError: (reason?: unknown) => void;
+}
+
+export type CreateEntryStore = (
+  config: RequiredPersistenceRetryConfig,
+  callbacks: EntryStoreCallbacks
+) => EntryStore;
+
+export interface StorageBackend {
+  name: RetryStorage | 'file';
+  createStore: CreateEntryStore;
+  /**
+   * Whether reopening the store may recover from the error, the store is never reopened without it
+   */
+  isRecoverable?: (reason: unknown) => boolean;
+  /**
+   * Whether the error is caused by the entry rather than the store, the entry is dropped
+   * and the store kept
+   */
+  isEntryError?: (reason: unknown) => boolean;
+}
+
+/**
+ * FormData and URLSearchParams bodies can not be structured cloned,
+ * they are stored as their entries and string instead
+ */
+export interface StoredRetryEntry extends Omit<RetryEntry, 'body'> {
+  body: BeaconBody | Array<[string, FormDataEntryValue]>;
+  bodyType?: 'form-data' | 'url-search-params';
+  /**
+   * Key auto-incremented by IndexedDB
+   */
+  id?: number;
+  /**
+   * Rank of the priority, indexed with the timestamp and the size to find the next entry
+   * to replay and the entries to evict without reading their bodies
+   */
+  rank?: number;
+}
+
+/**
+ * What the eviction policies compare entries by
+ */
+export interface EvictionCandidate {
+  timestamp: number;
+  rank: number;
+  size: number;
+}
+
+export interface EvictionOptions<T> {
+  /**
+   * Evict a batch even within the limits, when the storage quota is exceeded
+   */
+  force?: boolean;
+  /**
+   * Storage usage of the origin when it is nearly full, a batch is evicted ahead of time
+   * when the candidates make up a significant share of it
+   */
+  storageUsage?: number;
+  /**
+   * The candidate being pushed, it is not evicted ahead of time
+   */
+  pushed?: T;
+}
+
+/**
+ * Share of the storage usage the entries make up before they are evicted ahead of time,
+ * evicting them would hardly help when the storage is used by something else
+ */
+const evictionUsageShare = 0.1;
+
+const dbVersion = 2;
+const entryStoreName = 'entries';
+const legacyStoreName = 'beacons';
+
+const priorityRank: Record<BeaconPriority, number> = {
+  low: 0,
+  normal: 1,
+  high: 2,
+};
+const highestRank = priorityRank.high;
+
+let isClearing = false;
+
+export function getRank(entry: Pick<RetryEntry, 'priority'>): number {
+  return priorityRank[entry.priority || 'normal'];
+}
+
+export function getSize(entry: RetryEntry): number {
+  return entry.size ?? bodyByteLength(entry.body);
+}
+
+export function toStoredEntry(entry: RetryEntry): StoredRetryEntry {
+  const { body } = entry;
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    const formEntries: Array<[string, FormDataEntryValue]> = [];
+    body.forEach((value, name) => formEntries.push([name, value]));
+    return { ...entry, body: formEntries, bodyType: 'form-data' };
+  }
+  if (
+    typeof URLSearchParams !== 'undefined' &&
+    body instanceof URLSearchParams
+  ) {
+    return { ...entry, body: body.toString(), bodyType: 'url-search-params' };
+  }
+  return entry;
+}
+
+/**
+ * Restore the entry read from the store with the body type it was pushed with
+ */
+export function fromStoredEntry(stored: StoredRetryEntry): RetryEntry {
+  const { bodyType, body, ...entry } = stored;
+  delete entry.id;
+  delete entry.rank;
+  if (bodyType === 'form-data') {
+    const formData = new FormData();
+    (body as Array<[string, FormDataEntryValue]>).forEach(([name, value]) =>
+      formData.append(name, value)
+    );
+    return { ...entry, body: formData };
+  }
+  if (bodyType === 'url-search-params') {
+    return { ...entry, body: new URLSearchParams(body as string) };
+  }
+  return { ...entry, body: body as BeaconBody };
+}
+
+/**
+ * Compare entries in the order they should be evicted,
+ * the candidates are sorted oldest first and array sort is stable
+ */
+const evictionComparators: Record<
+  EvictionPolicy,
+  ((a: EvictionCandidate, b: EvictionCandidate) => number) | undefined
+> = {
+  oldest: undefined,
+  newest: (a, b) => b.timestamp - a.timestamp,
+  'lowest-priority': (a, b) => a.rank - b.rank,
+  largest: (a, b) => b.size - a.size,
+};
+
+/**
+ * Pick the entries to evict by the eviction policy: `batchEvictionNumber` entries when exceeding
+ * `maxNumber`, when forced or ahead of time, and as many as needed to get under `maxBytes`.
+ * The candidates are ordered by timestamp
+ */
+export function pickEvicted<T extends EvictionCandidate>(
+  candidates: T[],
+  retentionConfig: EvictionConfig,
+  { force = false, storageUsage, pushed }: EvictionOptions<T> = {}
+): T[] {
+  const compare =
+    evictionComparators[retentionConfig.evictionPolicy || 'lowest-priority'];
+  const { maxNumber, batchEvictionNumber, maxBytes } = retentionConfig;
+  const sorted = compare ? [...candidates].sort(compare) : candidates;
+  let totalBytes = candidates.reduce((bytes, { size }) => bytes + size, 0);
+  const exceedsNumber = candidates.length > maxNumber;
+  const aheadOfTime =
+    !force &&
+    !exceedsNumber &&
+    storageUsage !== undefined &&
+    totalBytes >= storageUsage * evictionUsageShare;
+  const batchNumber =
+    force || exceedsNumber || aheadOfTime ? batchEvictionNumber : 0;
+  const evicted: T[] = [];
+  for (const candidate of sorted) {
+    const exceedsBytes = maxBytes !== undefined && totalBytes > maxBytes;
+    if (evicted.length >= batchNumber && !exceedsBytes) {
+      break;
+    }
+    if (candidate === pushed && aheadOfTime && !exceedsBytes) {
+      continue;
+    }
+    evicted.push(candidate);
+    totalBytes -= candidate.size;
+  }
+  return evicted;
+}
+
+/**
+ * Index of the next entry to replay in entries ordered by timestamp: the highest priority,
+ * then the oldest or the newest one depending on `order`
+ */
+export function findNextIndex(
+  entries: Array<Pick<RetryEntry, 'priority'>>,
+  order: ReplayOrder
+): number {
+  let nextIndex = -1;
+  for (let i = 0; i < entries.length; i++) {
+    const index = order === 'lifo' ? entries.length - 1 - i : i;
+    if (
+      nextIndex === -1 ||
+      getRank(entries[index]) > getRank(entries[nextIndex])
+    ) {
+      nextIndex = index;
+    }
+    if (getRank(entries[nextIndex]) === highestRank) {
+      break;
+    }
+  }
+  return nextIndex;
+}
+
+/**
+ * Resolve once the transaction commits and reject when it aborts, with an `AbortError`
+ * when it was aborted without an error
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.addEventListener('complete', () => resolve());
+    transaction.addEventListener('abort', () =>
+      reject(
+        transaction.error ||
+          new DOMException('The transaction was aborted', 'AbortError')
+      )
+    );
+  });
+}
+
+/**
+ * Delete the entries picked by the eviction policy, the returned array is filled with the
+ * evicted entries once the transaction completes.
+ * The candidates are read from the keys of the rank index, only the evicted entries are read.
+ * `putRequest` is the request putting the pushed entry in the same transaction
+ */
+function evictFromStoreTx(
+  store: IDBObjectStore,
+  retentionConfig: EvictionConfig,
+  options: Omit<EvictionOptions<unknown>, 'pushed'> & {
+    putRequest?: IDBRequest<IDBValidKey>;
+  } = {}
+): RetryEntry[] {
+  const { putRequest, ...evictionOptions } = options;
+  const candidates: Array<EvictionCandidate & { key: number }> = [];
+  const evicted: RetryEntry[] = [];
+  store.index('rank').openKeyCursor().onsuccess = function () {
+    const cursor = this.result;
+    if (cursor) {
+      const [rank, timestamp, size] = cursor.key as number[];
+      candidates.push({
+        key: cursor.primaryKey as number,
+        rank,
+        timestamp,
+        size,
+      });
+      cursor.continue();
+      return;
+    }
+    candidates.sort((a, b) => a.timestamp - b.timestamp || a.key - b.key);
+    const pushed = candidates.find(({ key }) => key === putRequest?.result);
+    for (const { key } of pickEvicted(candidates, retentionConfig, {
+      ...evictionOptions,
+      pushed,
+    })) {
+      store.get(key).onsuccess = function () {
+        evicted.push(fromStoredEntry(this.result as StoredRetryEntry));
+      };
+      store.delete(key);
+    }
+  };
+  return evicted;
+}
+
+/**
+ * Resolves with the evicted entries once the transaction commits, the storage quota may only
+ * be exceeded when committing
+ */
+function putTx(
+  store: IDBObjectStore,
+  entry: RetryEntry,
+  retentionConfig: EvictionConfig,
+  storageUsage?: number
+): Promise<RetryEntry[]> {
+  let evicted: RetryEntry[] = [];
+  const putRequest = store.put({
+    ...toStoredEntry(entry),
+    rank: getRank(entry),
+  });
+  if (retentionConfig.maxBytes !== undefined || storageUsage !== undefined) {
+    evicted = evictFromStoreTx(store, retentionConfig, {
+      storageUsage,
+      putRequest,
+    });
+  } else {
+    store.count().onsuccess = function () {
+      if (this.result > retentionConfig.maxNumber) {
+        evicted = evictFromStoreTx(store, retentionConfig);
+      }
+    };
+  }
+  return transactionDone(store.transaction).then(() => evicted);
+}
+
+/**
+ * Push an entry, evicting entries when exceeding `maxNumber`, `maxBytes` or the storage quota.
+ * A batch is evicted ahead of time when `storageUsage` is given and the entries make up
+ * a significant share of it.
+ * Resolves with the evicted entries
+ */
+function pushEntry(
+  entry: RetryEntry,
+  retentionConfig: EvictionConfig,
+  withStore: WithStore,
+  storageUsage?: number
+): Promise<RetryEntry[]> {
+  if (isClearing) {
+    return Promise.resolve([]);
+  }
+  const sizedEntry: RetryEntry = { ...entry, size: getSize(entry) };
+  return withStore('readwrite', (store) =>
+    putTx(store, sizedEntry, retentionConfig, storageUsage)
+  ).catch((reason: DOMException) => {
+    if (!reason || reason.name !== 'QuotaExceededError') {
+      throw reason;
+    }
+    debug(() => 'Storage quota exceeded, evict and push again');
+    return withStore('readwrite', (store) => {
+      const evicted = evictFromStoreTx(store, retentionConfig, {
+        force: true,
+      });
+      return transactionDone(store.transaction).then(() => evicted);
+    }).then((evicted) =>
+      withStore('readwrite', (store) =>
+        putTx(store, sizedEntry, retentionConfig)
+      ).then(
+        (evictedAgain) => [...evicted, ...evictedAgain],
+        (secondReason: DOMException) => {
+          if (secondReason && secondReason.name === 'QuotaExceededError') {
+            // The entry itself did not make it into the store
+            return [...evicted, sizedEntry];
+          }
+          throw secondReason;
+        }
+      )
+    );
+  });
+}
+
+/**
+ * Remove and return the next entry to replay: the highest priority,
+ * then the oldest or the newest one depending on `order`.
+ * The last key of the rank index holds the highest rank, the entries of that rank are then
+ * read in the replay order, neither cursor walks the other entries
+ */
+function shiftEntry(
+  order: ReplayOrder,
+  withStore: WithStore
+): Promise<RetryEntry | undefined> {
+  return withStore('readwrite', (store) => {
+    let next: StoredRetryEntry | undefined;
+    const index = store.index('rank');
+    index.openKeyCursor(null, 'prev').onsuccess = function () {
+      const highest = this.result;
+      if (!highest) {
+        return;
+      }
+      const [rank] = highest.key as number[];
+      index.openCursor(
+        IDBKeyRange.bound([rank], [rank, Infinity]),
+        order === 'lifo' ? 'prev' : 'next'
+      ).onsuccess = function () {
+        const cursor = this.result;
+        if (cursor) {
+          next = cursor.value as StoredRetryEntry;
+          cursor.delete();
+        }
+      };
+    };
+    return transactionDone(store.transaction).then(
+      () => next && fromStoredEntry(next)
+    );
+  });
+}
+
+function clearEntries(withStore: WithStore): Promise<void> {
+  isClearing = true;
+  return withStore('readwrite', (store) => {
+    store.clear();
+    return transactionDone(store.transaction);
+  }).finally(() => {
+    isClearing = false;
+  });
+}
+
+/**
+ * Delete all expired entries at once with the timestamp index
+ */
+function pruneExpiredEntries(
+  maxAge: number,
+  withStore: WithStore
+): Promise<RetryEntry[]> {
+  return withStore('readwrite', (store) => {
+    const expired: RetryEntry[] = [];
+    store
+      .index('timestamp')
+      .openCursor(IDBKeyRange.upperBound(Date.now() - maxAge, true)).onsuccess =
+      function () {
+        const cursor = this.result;
+        if (cursor) {
+          expired.push(fromStoredEntry(cursor.value as StoredRetryEntry));
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+    return transactionDone(store.transaction).then(() => expired);
+  });
+}
+
+/**
+ * Read the entries ordered by timestamp without removing them
+ */
+function peekEntries(
+  count: number,
+  withStore: WithStore,
+  direction: IDBCursorDirection
+): Promise<RetryEntry[]> {
+  return withStore('readonly', (store) => {
+    const peeked: RetryEntry[] = [];
+    store.index('timestamp').openCursor(null, direction).onsuccess =
+      function () {
+        const cursor = this.result;
+        if (cursor && peeked.length < count) {
+          peeked.push(fromStoredEntry(cursor.value as StoredRetryEntry));
+          cursor.continue();
+        }
+      };
+    return transactionDone(store.transaction).then(() => peeked);
+  });
+}
+
+/**
+ * Version 1 kept the entries in the `beacons` store keyed on their timestamp, entries created
+ * in the same millisecond overwrote each other. They are moved to a store keyed on an
+ * auto-incremented id and ordered by a timestamp index, the rank index orders them for replay
+ * and eviction
+ */
+function upgradeDB(request: IDBOpenDBRequest, oldVersion: number): void {
+  const db = request.result;
+  if (oldVersion < 2) {
+    const store = db.createObjectStore(entryStoreName, {
+      keyPath: 'id',
+      autoIncrement: true,
+    });
+    store.createIndex('timestamp', 'timestamp');
+    store.createIndex('rank', ['rank', 'timestamp', 'size']);
+    if (db.objectStoreNames.contains(legacyStoreName)) {
+      const transaction = request.transaction as IDBTransaction;
+      transaction.objectStore(legacyStoreName).openCursor().onsuccess =
+        function () {
+          const cursor = this.result;
+          if (cursor) {
+            const entry = cursor.value as StoredRetryEntry;
+            store.add({
+              ...entry,
+              rank: getRank(entry),
+              size: getSize(fromStoredEntry(entry)),
+            });
+            cursor.continue();
+          } else {
+            db.deleteObjectStore(legacyStoreName);
+          }
+        };
+    }
+  }
+}
+
+function openDB(
+  name: string,
+  callbacks: EntryStoreCallbacks
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, dbVersion);
+    request.onupgradeneeded = (event) => upgradeDB(request, event.oldVersion);
+    request.onsuccess = () => {
+      callbacks.onSuccess();
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      callbacks.onError(request.error);
+      reject(request.error);
+    };
+  });
+}
+
+const recoverableIDBErrors = [
+  'AbortError',
+  'InvalidStateError',
+  'TimeoutError',
+  'TransactionInactiveError',
+  'UnknownError',
+];
+
+/**
+ * Errors of the connection rather than of the entries, e.g. a transaction aborted in a
+ * background tab or a connection lost by the browser. An error without a reason is not recoverable
+ */
+export function isRecoverableIDBError(reason: unknown): boolean {
+  return (
+    !!reason && recoverableIDBErrors.includes((reason as DOMException).name)
+  );
+}
+
+const entryIDBErrors = ['DataCloneError', 'DataError'];
+
+/**
+ * Errors of a single entry, e.g. a body that can not be cloned or an invalid timestamp
+ */
+export function isIDBEntryError(reason: unknown): boolean {
+  return !!reason && entryIDBErrors.includes((reason as DOMException).name);
+}
+
+/**
+ * Create the IndexedDB backed store. The connection is closed when another tab upgrades
+ * or deletes the database, and opened again by the next operation, as after the browser closed it
+ */
+export const createIDBStore: CreateEntryStore = (config, callbacks) => {
+  let connection: Promise<IDBDatabase> | undefined;
+  const open = (): Promise<IDBDatabase> => {
+    const opening = openDB(config.idbName, callbacks).then((db) => {
+      const reset = (): void => {
+        if (connection === opening) {
+          connection = undefined;
+        }
+      };
+      db.onversionchange = () => {
+        debug(() => 'IndexedDB version change, close the connection');
+        db.close();
+        reset();
+      };
+      db.onclose = () => {
+        debug(() => 'IndexedDB connection closed by the browser');
+        reset();
+      };
+      return db;
+    });
+    // Failing to open is reported with onError, operations reject on their own
+    opening.catch(() => undefined);
+    return opening;
+  };
+  connection = open();
+  const withStore: WithStore = (txMode, callback) =>
+    (connection || (connection = open())).then((db) =>
+      callback(
+        db.transaction(entryStoreName, txMode).objectStore(entryStoreName)
+      )
+    );
+  return {
+    push: (entry, storageUsage) =>
+      pushEntry(entry, config, withStore, storageUsage),
+    shift: (order) => shiftEntry(order, withStore),
+    clear: () => clearEntries(withStore),
+    peek: (count) => peekEntries(count, withStore, 'next'),
+    peekBack: (count) => peekEntries(count, withStore, 'prev'),
+    pruneExpired: (maxAge) => pruneExpiredEntries(maxAge, withStore),
+    close: () => {
+      void connection?.then(
+        (db) => db.close(),
+        () => undefined
+      );
+      connection = undefined;
+    },
+  };
+};
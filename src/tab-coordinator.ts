@@ -0,0 +1,240 @@
+import { debug } from './utils';
+
+type TabMessage =
+  | { type: 'notify' }
+  | { type: 'clear' }
+  | { type: 'heartbeat'; id: string }
+  | { type: 'resign'; id: string };
+
+type TabEvent = 'notify' | 'clear';
+
+interface LockManagerLike {
+  request(
+    name: string,
+    options: { ifAvailable?: boolean; signal?: AbortSignal },
+    callback: (lock: unknown) => Promise<void>
+  ): Promise<void>;
+}
+
+const heartbeatInterval = 1000;
+const leaderTimeout = 3 * heartbeatInterval;
+
+function getLocks(): LockManagerLike | undefined {
+  return typeof navigator !== 'undefined'
+    ? (navigator as Navigator & { locks?: LockManagerLike }).locks
+    : undefined;
+}
+
+/**
+ * Elect one leader among the tabs sharing the same store.
+ * With Web Locks the lock is held until the leader tab is closed or hidden, then handed to the next waiting tab.
+ * Otherwise the leader sends heartbeats over BroadcastChannel, and another tab takes over when they stop.
+ * Locks are only used along with BroadcastChannel, the other tabs could not notify the leader otherwise.
+ */
+export class TabCoordinator {
+  private leader = false;
+  /**
+   * Whether this tab knows if it is the leader, notifications are held until then
+   */
+  private decided = false;
+  private pendingNotify = false;
+  private channel?: BroadcastChannel;
+  private id = Math.random().toString(36).slice(2);
+  private lastHeartbeat = Date.now();
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+  private lockController?: AbortController;
+  private listeners: Record<TabEvent, Set<() => void>> = {
+    notify: new Set(),
+    clear: new Set(),
+  };
+
+  constructor(private name: string) {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(name);
+      this.channel.onmessage = (event: MessageEvent<TabMessage>) =>
+        this.onMessage(event.data);
+    }
+    if (!this.channel) {
+      // Nobody to coordinate with
+      this.becomeLeader();
+      return;
+    }
+    this.elect();
+    self.addEventListener('pagehide', this.onPageHide);
+    self.addEventListener('pageshow', this.onPageShow);
+  }
+
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  on(event: TabEvent, cb: () => void): void {
+    this.listeners[event].add(cb);
+  }
+
+  /**
+   * Ask the leader tab to replay, or this tab once it is elected
+   * when the leadership is not decided yet
+   */
+  notifyLeader(): void {
+    if (!this.decided) {
+      this.pendingNotify = true;
+      return;
+    }
+    this.post({ type: 'notify' });
+  }
+
+  broadcastClear(): void {
+    this.post({ type: 'clear' });
+  }
+
+  /**
+   * Resign and stop coordinating, the coordinator is not used afterwards
+   */
+  close(): void {
+    this.resign();
+    clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = undefined;
+    self.removeEventListener('pagehide', this.onPageHide);
+    self.removeEventListener('pageshow', this.onPageShow);
+    this.channel?.close();
+    this.channel = undefined;
+    this.listeners.notify.clear();
+    this.listeners.clear.clear();
+  }
+
+  private elect(): void {
+    const locks = getLocks();
+    if (locks) {
+      this.requestLock(locks);
+    } else {
+      this.electWithHeartbeat();
+    }
+  }
+
+  /**
+   * Take the lock when it is free, otherwise wait for it as a follower.
+   * The lock is released when the page is hidden, a page kept in the back/forward cache
+   * must not hold it
+   */
+  private requestLock(locks: LockManagerLike): void {
+    const controller = new AbortController();
+    this.lockController = controller;
+    const holdLock = (): Promise<void> => {
+      this.becomeLeader();
+      return new Promise((resolve) =>
+        controller.signal.addEventListener('abort', () => resolve())
+      );
+    };
+    locks
+      .request(this.name, { ifAvailable: true }, (lock) => {
+        if (lock) {
+          return holdLock();
+        }
+        this.decide();
+        return locks.request(
+          this.name,
+          { signal: controller.signal },
+          holdLock
+        );
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) {
+          this.becomeLeader();
+        }
+      });
+  }
+
+  private becomeLeader(): void {
+    debug(() => `Became leader of ${this.name}`);
+    this.leader = true;
+    this.decide();
+  }
+
+  /**
+   * Deliver the notification held while the leadership was not decided
+   */
+  private decide(): void {
+    if (this.decided) {
+      return;
+    }
+    this.decided = true;
+    if (this.pendingNotify) {
+      this.pendingNotify = false;
+      if (this.leader) {
+        this.listeners.notify.forEach((cb) => cb());
+      } else {
+        this.post({ type: 'notify' });
+      }
+    }
+  }
+
+  private resign(): void {
+    this.lockController?.abort();
+    this.lockController = undefined;
+    if (this.leader) {
+      this.leader = false;
+      this.post({ type: 'resign', id: this.id });
+    }
+    this.decided = false;
+  }
+
+  private onPageHide = (): void => {
+    this.resign();
+  };
+
+  /**
+   * Run the election again when the page is restored from the back/forward cache
+   */
+  private onPageShow = (event: PageTransitionEvent): void => {
+    if (!event.persisted || !this.channel) {
+      return;
+    }
+    this.lastHeartbeat = Date.now();
+    const locks = getLocks();
+    if (locks) {
+      this.requestLock(locks);
+    }
+  };
+
+  private post(message: TabMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  private onMessage(message: TabMessage): void {
+    switch (message.type) {
+      case 'notify':
+        if (this.leader) {
+          this.listeners.notify.forEach((cb) => cb());
+        }
+        break;
+      case 'clear':
+        this.listeners.clear.forEach((cb) => cb());
+        break;
+      case 'heartbeat':
+        this.lastHeartbeat = Date.now();
+        // Tabs can claim at the same time, keep the one with the smaller id
+        if (this.leader && message.id < this.id) {
+          this.leader = false;
+        }
+        if (!this.leader) {
+          this.decide();
+        }
+        break;
+      case 'resign':
+        this.lastHeartbeat = 0;
+        break;
+    }
+  }
+
+  private electWithHeartbeat(): void {
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.leader && Date.now() - this.lastHeartbeat > leaderTimeout) {
+        this.becomeLeader();
+      }
+      if (this.leader) {
+        this.post({ type: 'heartbeat', id: this.id });
+      }
+    }, heartbeatInterval);
+  }
+}
@@ -1,7 +1,7 @@
-declare global {
-  interface Window {
-    __DEBUG_BEACON_TRANSPORTER?: boolean;
-  }
+import type { BeaconBody, BeaconRequestInit } from './interfaces';
+
+interface DebugGlobal {
+  __DEBUG_BEACON_TRANSPORTER?: boolean;
 }
 
 export function createHeaders(
@@ -15,22 +15,184 @@ export function createHeaders(
   return headers;
 }
 
+/**
+ * Parse `Retry-After` in delay-seconds or HTTP-date format,
+ * or the delay-seconds `RateLimit-Reset` header, into milliseconds
+ */
+export function parseRetryAfter(
+  headers: Pick<Headers, 'get'>,
+  now = Date.now()
+): number | undefined {
+  const value = headers.get('retry-after') || headers.get('ratelimit-reset');
+  if (!value) {
+    return undefined;
+  }
+  if (/^\s*\d+\s*$/.test(value)) {
+    return parseInt(value, 10) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
 export function sleep(ms: number): Promise<void> {
   return new Promise((r) => setTimeout(r, ms));
 }
 
+export function byteLength(data: string): number {
+  return typeof TextEncoder !== 'undefined'
+    ? new TextEncoder().encode(data).length
+    : data.length;
+}
+
+/**
+ * Plain objects are serialized to JSON, other bodies are sent as is
+ */
+export function isJsonBody(body: BeaconBody): body is Record<string, unknown> {
+  return Object.prototype.toString.call(body) === '[object Object]';
+}
+
+export function bodyByteLength(body: BeaconBody): number {
+  if (typeof body === 'string') {
+    return byteLength(body);
+  }
+  if (isJsonBody(body)) {
+    return byteLength(JSON.stringify(body));
+  }
+  if (typeof Blob !== 'undefined' && body instanceof Blob) {
+    return body.size;
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return body.byteLength;
+  }
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    let size = 0;
+    body.forEach((value, name) => {
+      size +=
+        byteLength(name) +
+        (typeof value === 'string' ? byteLength(value) : value.size);
+    });
+    return size;
+  }
+  return byteLength(String(body));
+}
+
+/**
+ * Pick the request options that are set, later sources override earlier ones
+ */
+export function pickRequestInit(
+  ...sources: BeaconRequestInit[]
+): BeaconRequestInit {
+  const requestInit: BeaconRequestInit = {};
+  for (const { method, credentials, mode, headersInQuery } of sources) {
+    if (method) {
+      requestInit.method = method;
+    }
+    if (credentials) {
+      requestInit.credentials = credentials;
+    }
+    if (mode) {
+      requestInit.mode = mode;
+    }
+    if (headersInQuery !== undefined) {
+      requestInit.headersInQuery = headersInQuery;
+    }
+  }
+  return requestInit;
+}
+
+/**
+ * The flag is read from globalThis to cover both window and worker scopes
+ */
+function isDebugEnabled(): boolean {
+  return (
+    typeof globalThis !== 'undefined' &&
+    !!(globalThis as typeof globalThis & DebugGlobal).__DEBUG_BEACON_TRANSPORTER
+  );
+}
+
 export function debug(data: () => string): void {
-  if (typeof window !== 'undefined' && window.__DEBUG_BEACON_TRANSPORTER) {
+  if (isDebugEnabled()) {
     console.debug('[beacon-transporter] ', data());
   }
 }
 
 export function logError(data: () => string): void {
-  if (typeof window !== 'undefined' && window.__DEBUG_BEACON_TRANSPORTER) {
+  if (isDebugEnabled()) {
     console.error('[beacon-transporter] ', data());
   }
 }
 
+export function isPageHidden(): boolean {
+  return (
+    typeof document !== 'undefined' && document.visibilityState === 'hidden'
+  );
+}
+
+/**
+ * Server-side runtimes have no `navigator.onLine`, assume they are online
+ */
+export function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/**
+ * Run callback when the page becomes hidden or is being unloaded,
+ * returns a function to remove the listeners
+ */
+export function onPageHide(cb: () => void): () => void {
+  if (typeof document === 'undefined') {
+    return () => {
+      // noop
+    };
+  }
+  const onVisibilityChange = (): void => {
+    if (isPageHidden()) {
+      cb();
+    }
+  };
+  document.addEventListener('visibilitychange', onVisibilityChange);
+  window.addEventListener('pagehide', cb);
+  return () => {
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+    window.removeEventListener('pagehide', cb);
+  };
+}
+
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: {
+    register(tag: string): Promise<void>;
+  };
+};
+
+/**
+ * Register a Background Sync tag from a page, a worker or a service worker.
+ * Nothing is registered when no service worker is registered for the page
+ */
+export function registerBackgroundSync(tag: string): void {
+  if (typeof self === 'undefined') {
+    return;
+  }
+  const serviceWorkerScope = self as unknown as {
+    registration?: SyncRegistration;
+  };
+  let registered: Promise<SyncRegistration | undefined>;
+  if (serviceWorkerScope.registration) {
+    registered = Promise.resolve(serviceWorkerScope.registration);
+  } else if ('serviceWorker' in navigator) {
+    // `ready` never resolves without a registered service worker
+    registered = navigator.serviceWorker.getRegistration() as Promise<
+      SyncRegistration | undefined
+    >;
+  } else {
+    return;
+  }
+  registered
+    .then((registration) => registration?.sync?.register(tag))
+    .catch(() => {
+      logError(() => 'background sync registration failed');
+    });
+}
+
 interface ScheduleTaskConfig {
   fallbackTimeout?: number;
   timeRemaining: number;
@@ -78,10 +240,7 @@ export interface ThrottleControl {
  * Create throttle control for executing function that is throttled,
  * and support resetting the throttling time
  */
-export function throttle(
-  fn: () => void,
-  timeFrame: number
-): ThrottleControl {
+export function throttle(fn: () => void, timeFrame: number): ThrottleControl {
   let lastTime = 0;
   const throttledFn = (): void => {
     const now = Date.now();